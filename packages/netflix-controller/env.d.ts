@@ -1,5 +1,6 @@
 import ".wxt/wxt.d.ts";
 import type { ActionHandler } from "./src/types/components";
+import type { HapticEffect } from "./src/utils/haptics";
 
 // WXT unlisted script ?script import
 declare module "*?script" {
@@ -23,6 +24,43 @@ declare global {
 		isEnded(): boolean;
 		exitFullscreen?(): void;
 		enterFullscreen?(): void;
+		getMovieId?(): number;
+		getAudioTrackList?(): NetflixTrack[];
+		getTextTrackList?(): NetflixTrack[];
+		getAudioTrack?(): NetflixTrack | undefined;
+		getTextTrack?(): NetflixTrack | undefined;
+		setAudioTrack?(track: NetflixTrack): void;
+		setTextTrack?(track: NetflixTrack): void;
+		getPlaybackRate?(): number;
+		setPlaybackRate?(rate: number): void;
+	}
+
+	interface NetflixTrack {
+		trackId: string;
+		displayName: string;
+		bcp47?: string;
+		isNoneTrack?: boolean;
+	}
+
+	interface NetflixEpisodeMetadata {
+		id: number;
+		seq: number;
+		title?: string;
+	}
+
+	interface NetflixVideoMetadata {
+		_metadata?: {
+			video?: {
+				id: number;
+				type: "movie" | "show" | string;
+				currentEpisode?: number;
+				seasons?: {
+					id: number;
+					seq: number;
+					episodes: NetflixEpisodeMetadata[];
+				}[];
+			};
+		};
 	}
 
 	interface NetflixVideoPlayerAPI {
@@ -40,12 +78,21 @@ declare global {
 	}
 
 	interface NetflixAppContext {
+		reactContext?: {
+			models?: {
+				userInfo?: { data?: { guid?: string } };
+			};
+		};
 		appContext: {
 			state: {
 				playerApp: {
 					getAPI(): {
 						videoPlayer: NetflixVideoPlayerAPI;
-						playerApp?: Record<string, unknown>;
+						playerApp?: {
+							// switches the player to another title; missing in some player versions
+							loadVideo?(videoId: number): void;
+							[key: string]: unknown;
+						};
 						postPlay?: Record<string, unknown>;
 						live?: Record<string, unknown>;
 						ads?: Record<string, unknown>;
@@ -56,6 +103,11 @@ declare global {
 						getTimecodeEnding?: () => () => unknown;
 						getTimecodePrefetch?: () => () => unknown;
 					};
+					getState?(): {
+						videoPlayer?: {
+							videoMetadata?: Record<string, NetflixVideoMetadata>;
+						};
+					};
 				};
 			};
 		};
@@ -67,12 +119,23 @@ interface NetflixDebugTools {
 	// Player Control Functions
 	getPlayer: () => unknown;
 	togglePlayPause: () => unknown;
+	setPaused: (paused: boolean) => unknown;
 	toggleMute: () => unknown;
 	seekForward: (seconds?: number) => unknown;
 	seekBackward: (seconds?: number) => unknown;
+	seekTo: (timeMs: number) => unknown;
 	volumeUp: (delta?: number) => unknown;
 	volumeDown: (delta?: number) => unknown;
+	getPlaybackRate: () => unknown;
+	setPlaybackRate: (rate: number) => unknown;
 	getPlaybackStatus: () => unknown;
+	getSkipSegments: () => unknown;
+	getEpisodeInfo: () => unknown;
+	nextEpisode: () => unknown;
+	previousEpisode: () => unknown;
+	getTracks: () => unknown;
+	setAudioTrack: (trackId: string) => unknown;
+	setTextTrack: (trackId: string) => unknown;
 
 	// Debug Functions
 	getFullAPI: () => unknown;
@@ -123,6 +186,10 @@ declare global {
 	interface Window {
 		actionHandler: ActionHandler;
 		isKeyboardActive?: () => boolean;
+		isGamepadInputEnabled?: () => boolean;
+		isCursorActive?: () => boolean;
+		rumble?: (effect: HapticEffect) => void;
+		getActiveGamepad?: () => Gamepad | null;
 		netflix?: NetflixAppContext;
 		netflixDebug: NetflixDebugTools;
 	}
@@ -3,6 +3,7 @@ import type {
 	RuntimeInstalledDetails,
 	TabChangeInfo,
 } from "../../types/browser";
+import { DEFAULT_KEY_MAP } from "../../utils/key-map.ts";
 import * as S from "../../utils/storage-items";
 // import { OPTIONS } from "../options/settings.js";
 
@@ -38,6 +39,57 @@ export default defineBackground(() => {
 		S.showCompatibilityWarning.has().then((has) => {
 			if (!has) S.showCompatibilityWarning.set(true);
 		});
+		S.skipIntro.has().then((has) => {
+			if (!has) S.skipIntro.set("Show button");
+		});
+		S.skipRecap.has().then((has) => {
+			if (!has) S.skipRecap.set("Show button");
+		});
+		S.skipCredits.has().then((has) => {
+			if (!has) S.skipCredits.set("Off");
+		});
+		S.buttonBindings.has().then((has) => {
+			if (!has) S.buttonBindings.set({});
+		});
+		S.directionRepeat.has().then((has) => {
+			if (!has) S.directionRepeat.set(true);
+		});
+		S.repeatDelay.has().then((has) => {
+			if (!has) S.repeatDelay.set(400);
+		});
+		S.repeatRate.has().then((has) => {
+			if (!has) S.repeatRate.set(8);
+		});
+		S.repeatAcceleration.has().then((has) => {
+			if (!has) S.repeatAcceleration.set(true);
+		});
+		S.stickDeadZone.has().then((has) => {
+			if (!has) S.stickDeadZone.set(0.15);
+		});
+		S.stickThreshold.has().then((has) => {
+			if (!has) S.stickThreshold.set(0.5);
+		});
+		S.stickCalibrations.has().then((has) => {
+			if (!has) S.stickCalibrations.set({});
+		});
+		S.keyboardInput.has().then((has) => {
+			if (!has) S.keyboardInput.set(false);
+		});
+		S.keyMap.has().then((has) => {
+			if (!has) S.keyMap.set(DEFAULT_KEY_MAP);
+		});
+		S.primaryController.has().then((has) => {
+			if (!has) S.primaryController.set("First active");
+		});
+		S.pinnedController.has().then((has) => {
+			if (!has) S.pinnedController.set("");
+		});
+		S.controllerSettings.has().then((has) => {
+			if (!has) S.controllerSettings.set({});
+		});
+		S.hapticIntensity.has().then((has) => {
+			if (!has) S.hapticIntensity.set(50);
+		});
 	}
 
 	// Inform the content script of any changes to the Netflix's URL path
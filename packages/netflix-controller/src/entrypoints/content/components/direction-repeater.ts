@@ -0,0 +1,84 @@
+import type { Settings } from "../../../types/settings";
+
+// each repeat comes this much sooner than the previous one while accelerating
+const ACCELERATION_FACTOR = 0.85;
+const MIN_REPEAT_INTERVAL = 35;
+// how often to check again while navigation is locked by an animation
+const LOCKED_RETRY_INTERVAL = 20;
+
+/**
+ * Repeats a held direction after an initial delay, optionally speeding up
+ * the longer it is held. Repeats wait while navigation is locked so they
+ * line up with slider animations instead of being dropped.
+ */
+export class DirectionRepeater {
+	storage: Settings;
+	onRepeat: (direction: number) => void;
+	isLocked: () => boolean;
+	direction: number | null;
+	repeats: number;
+	timeoutId: ReturnType<typeof setTimeout> | null;
+
+	constructor(
+		storage: Settings,
+		onRepeat: (direction: number) => void,
+		isLocked: () => boolean,
+	) {
+		this.storage = storage;
+		this.onRepeat = onRepeat;
+		this.isLocked = isLocked;
+		this.direction = null;
+		this.repeats = 0;
+		this.timeoutId = null;
+	}
+
+	press(direction: number): void {
+		this.stop();
+		if (this.storage.directionRepeat === false) {
+			return;
+		}
+		this.direction = direction;
+		this.schedule(this.storage.repeatDelay ?? 400);
+	}
+
+	release(direction: number): void {
+		if (direction === this.direction) {
+			this.stop();
+		}
+	}
+
+	stop(): void {
+		if (this.timeoutId !== null) {
+			clearTimeout(this.timeoutId);
+			this.timeoutId = null;
+		}
+		this.direction = null;
+		this.repeats = 0;
+	}
+
+	schedule(delay: number): void {
+		this.timeoutId = setTimeout(() => this.repeat(), delay);
+	}
+
+	repeat(): void {
+		if (this.direction === null) return;
+		if (this.isLocked()) {
+			this.schedule(LOCKED_RETRY_INTERVAL);
+			return;
+		}
+		this.onRepeat(this.direction);
+		this.repeats++;
+		this.schedule(this.getInterval());
+	}
+
+	getInterval(): number {
+		const interval = 1000 / (this.storage.repeatRate || 8);
+		if (!this.storage.repeatAcceleration) {
+			return interval;
+		}
+		return Math.max(
+			interval * ACCELERATION_FACTOR ** this.repeats,
+			MIN_REPEAT_INTERVAL,
+		);
+	}
+}
@@ -0,0 +1,96 @@
+import type {
+	EnterParams,
+	ExitResult,
+	InteractiveComponent,
+	NavigatableComponent,
+	StyleableComponent,
+} from "../../../types/components.ts";
+import { isVisible } from "./spatial-navigation.ts";
+import { StaticNavigatable } from "./static-navigatable.ts";
+
+declare function getTransparentNetflixRed(opacity: number): string;
+
+const FOCUSABLE_SELECTOR = [
+	"a[href]",
+	"button",
+	"input:not([type='hidden'])",
+	"select",
+	"textarea",
+	"[role='button']",
+	"[role='link']",
+	"[tabindex]:not([tabindex='-1'])",
+].join(", ");
+
+/**
+ * Every visible link, button and form field of a page that has no page
+ * handler of its own, moved between by their position on screen.
+ */
+export class FocusableElements extends StaticNavigatable {
+	root: Element;
+
+	constructor(root: Element = document.body) {
+		super();
+		this.root = root;
+	}
+
+	getComponents(): NavigatableComponent[] {
+		return Array.from(
+			this.root.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR),
+		).filter(
+			(element) =>
+				isVisible(element) &&
+				!element.matches(":disabled") &&
+				// nested focusables, e.g. a button inside a link, are reached through the outer one
+				!element.parentElement?.closest(FOCUSABLE_SELECTOR),
+		);
+	}
+
+	usesSpatialNavigation(): boolean {
+		return true;
+	}
+
+	style(component: StyleableComponent, selected: boolean): void {
+		if (!(component instanceof HTMLElement)) {
+			return;
+		}
+		// focus takes key presses in fields
+		if (selected) {
+			component.focus({ preventScroll: true });
+		} else {
+			component.blur();
+		}
+	}
+
+	select(position: number): void {
+		super.select(position);
+		// pages commonly hide focus outlines, so the selection outline must win
+		this.getStyleComponent()?.style.setProperty(
+			"outline",
+			`3px solid ${getTransparentNetflixRed(0.7)}`,
+			"important",
+		);
+	}
+
+	interact(component: InteractiveComponent): void {
+		if (
+			component instanceof HTMLElement &&
+			component.matches("input, select, textarea")
+		) {
+			component.focus();
+		}
+		super.interact(component);
+	}
+
+	enter(params?: EnterParams): void {
+		// links and buttons come and go as the page renders
+		this.observeComponents(this.root);
+		if (this.components.length > 0) {
+			super.enter(params);
+		}
+	}
+
+	exit(): ExitResult {
+		this.stopObservingComponents();
+		return super.exit();
+	}
+}
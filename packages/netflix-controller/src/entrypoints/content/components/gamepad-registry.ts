@@ -0,0 +1,124 @@
+import type { Settings } from "../../../types/settings";
+import { getControllerMapping } from "../../../utils/controller-detection";
+import { getControllerProfile } from "../../../utils/controller-profiles.ts";
+
+export interface RegisteredController {
+	// gamepad index assigned by the browser
+	index: number;
+	// Gamepad API id, stable across reconnects of the same device
+	id: string;
+	// button icon set used in hints for this controller
+	mapping: string;
+}
+
+/**
+ * Tracks the connected controllers and decides which one is primary. Only
+ * input from the primary controller drives navigation, and hints use its
+ * button icons. Depending on the policy, the primary is the first controller
+ * used, the one used last, or a pinned device whenever it is connected.
+ */
+export class GamepadRegistry {
+	storage: Settings;
+	controllers: Map<number, RegisteredController>;
+	primary: number | null;
+	// called whenever the controller shown in hints may have changed
+	onChange: (() => void) | null;
+
+	constructor(storage: Settings) {
+		this.storage = storage;
+		this.controllers = new Map();
+		this.primary = null;
+		this.onChange = null;
+	}
+
+	size(): number {
+		return this.controllers.size;
+	}
+
+	getMapping(id: string): string {
+		return (
+			getControllerProfile(this.storage.controllerSettings, id)
+				.buttonImageMapping ??
+			getControllerMapping(id, this.storage.buttonImageMapping)
+		);
+	}
+
+	connect(index: number, id: string): RegisteredController {
+		const controller = { index, id, mapping: this.getMapping(id) };
+		this.controllers.set(index, controller);
+		this.refresh();
+		return controller;
+	}
+
+	disconnect(index: number): void {
+		this.controllers.delete(index);
+		if (this.primary === index) {
+			this.primary = null;
+		}
+		this.refresh();
+	}
+
+	getPinned(): RegisteredController | null {
+		if (this.storage.primaryController !== "Pinned") {
+			return null;
+		}
+		for (const controller of this.controllers.values()) {
+			if (controller.id === this.storage.pinnedController) {
+				return controller;
+			}
+		}
+		return null;
+	}
+
+	// controller whose buttons are shown in hints
+	getActive(): RegisteredController | null {
+		if (this.primary !== null) {
+			return this.controllers.get(this.primary) ?? null;
+		}
+		return this.controllers.values().next().value ?? null;
+	}
+
+	/**
+	 * Records input from a controller and returns whether it should be
+	 * handled, making the controller primary if the policy allows it.
+	 */
+	accept(index: number): boolean {
+		if (!this.controllers.has(index)) {
+			return false;
+		}
+		const pinned = this.getPinned();
+		if (pinned) {
+			return pinned.index === index;
+		}
+		if (
+			this.primary === null ||
+			this.storage.primaryController === "Last active"
+		) {
+			this.setPrimary(index);
+		}
+		return this.primary === index;
+	}
+
+	setPrimary(index: number | null): void {
+		if (index !== this.primary) {
+			this.primary = index;
+			const controller = index !== null ? this.controllers.get(index) : null;
+			console.log(
+				`NETFLIX-CONTROLLER: Primary controller: ${controller?.id ?? "none"}`,
+			);
+			this.onChange?.();
+		}
+	}
+
+	// re-apply the settings after they changed or a controller (dis)connected
+	refresh(): void {
+		for (const controller of this.controllers.values()) {
+			controller.mapping = this.getMapping(controller.id);
+		}
+		const pinned = this.getPinned();
+		if (pinned) {
+			this.setPrimary(pinned.index);
+		}
+		this.onChange?.();
+	}
+}
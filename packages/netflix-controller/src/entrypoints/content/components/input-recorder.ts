@@ -0,0 +1,162 @@
+import type {
+	InputCapture,
+	InputSink,
+	RecordedInputType,
+} from "../../../types/handlers";
+
+// bump whenever the capture format changes
+const CAPTURE_VERSION = 1;
+
+const INPUT_TYPES: RecordedInputType[] = [
+	"pressButton",
+	"releaseButton",
+	"pressDirection",
+	"releaseDirection",
+];
+
+/**
+ * Records the button and direction stream passed to the action handler,
+ * with the URL and page handler at each event, so that navigation bugs can
+ * be reproduced by replaying the exported capture on the same page.
+ */
+export class InputRecorder {
+	// forwards to the wrapped sink, recording every event while active
+	sink: InputSink;
+	target: InputSink;
+	getHandlerName: () => string | null;
+	// called before a replay starts, e.g. to load the page handler
+	onReplay: (() => void) | null;
+	capture: InputCapture | null;
+	recording: boolean;
+	startTime: number;
+	replayTimers: ReturnType<typeof setTimeout>[];
+	finishReplay: (() => void) | null;
+
+	constructor(target: InputSink, getHandlerName: () => string | null) {
+		this.target = target;
+		this.getHandlerName = getHandlerName;
+		this.onReplay = null;
+		this.capture = null;
+		this.recording = false;
+		this.startTime = 0;
+		this.replayTimers = [];
+		this.finishReplay = null;
+		this.sink = {
+			pressButton: (index) => this.forward("pressButton", index),
+			releaseButton: (index) => this.forward("releaseButton", index),
+			pressDirection: (direction) => this.forward("pressDirection", direction),
+			releaseDirection: (direction) =>
+				this.forward("releaseDirection", direction),
+		};
+	}
+
+	forward(type: RecordedInputType, value: number): void {
+		if (this.recording && this.capture) {
+			this.capture.events.push({
+				time: Math.round(performance.now() - this.startTime),
+				type,
+				value,
+				url: window.location.href,
+				handler: this.getHandlerName(),
+			});
+		}
+		this.target[type](value);
+	}
+
+	start(): void {
+		this.stopReplay();
+		this.capture = {
+			version: CAPTURE_VERSION,
+			recordedAt: new Date().toISOString(),
+			url: window.location.href,
+			handler: this.getHandlerName(),
+			viewport: { width: window.innerWidth, height: window.innerHeight },
+			events: [],
+		};
+		this.startTime = performance.now();
+		this.recording = true;
+		console.log("NETFLIX-CONTROLLER: Recording input");
+	}
+
+	stop(): InputCapture | null {
+		if (this.recording) {
+			this.recording = false;
+			console.log(
+				`NETFLIX-CONTROLLER: Recorded ${this.capture?.events.length ?? 0} input events`,
+			);
+		}
+		return this.capture;
+	}
+
+	// downloads the last capture as a JSON file and returns it
+	export(): InputCapture | null {
+		const capture = this.stop();
+		if (!capture) return null;
+		const blob = new Blob([JSON.stringify(capture, null, "\t")], {
+			type: "application/json",
+		});
+		const link = document.createElement("a");
+		link.href = URL.createObjectURL(blob);
+		link.download = `netflix-controller-input-${capture.recordedAt.replace(/[:.]/g, "-")}.json`;
+		link.click();
+		setTimeout(() => URL.revokeObjectURL(link.href));
+		return capture;
+	}
+
+	/**
+	 * Feeds a capture, or its JSON, into the sink with the recorded timing
+	 * divided by speed. Resolves once the last event was replayed or the
+	 * replay was stopped.
+	 */
+	replay(capture: InputCapture | string, speed = 1): Promise<void> {
+		const data: InputCapture =
+			typeof capture === "string" ? JSON.parse(capture) : capture;
+		if (data.version !== CAPTURE_VERSION) {
+			throw new Error(`unsupported input capture version ${data.version}`);
+		}
+		if (!Array.isArray(data.events)) {
+			throw new Error("input capture has no events");
+		}
+		this.stop();
+		this.stopReplay();
+		if (data.url !== window.location.href) {
+			console.warn(
+				`NETFLIX-CONTROLLER: Replaying input recorded on ${data.url} on ${window.location.href}`,
+			);
+		}
+		this.onReplay?.();
+		return new Promise((resolve) => {
+			this.finishReplay = () => {
+				this.replayTimers = [];
+				this.finishReplay = null;
+				resolve();
+			};
+			let duration = 0;
+			for (const event of data.events) {
+				if (!INPUT_TYPES.includes(event.type)) {
+					console.warn(
+						`NETFLIX-CONTROLLER: Skipping unknown input ${event.type}`,
+					);
+					continue;
+				}
+				duration = Math.max(duration, event.time);
+				this.replayTimers.push(
+					setTimeout(
+						() => this.target[event.type](event.value),
+						event.time / speed,
+					),
+				);
+			}
+			this.replayTimers.push(
+				setTimeout(() => this.finishReplay?.(), duration / speed),
+			);
+		});
+	}
+
+	stopReplay(): void {
+		for (const timer of this.replayTimers) {
+			clearTimeout(timer);
+		}
+		this.finishReplay?.();
+	}
+}
@@ -3,22 +3,37 @@ import type {
 	EnterParams,
 	ExitResult,
 	Handler,
+	InteractiveComponent,
+	NavigatableComponent,
 	NavigationAction,
 	SliderData,
 } from "../../../types/components.ts";
+import { isVisible } from "./spatial-navigation.ts";
 import { TitlePanel } from "./title-panel.ts";
 
 declare let currentHandler: Handler;
 
+// selectable contents of the Episodes, More Like This and Details tabs
+const TAB_CONTENT_SELECTOR = [
+	".nfDropDown > .label", // season dropdown
+	".nfDropDown .sub-menu-link", // seasons while the dropdown is open
+	".episodeLockup",
+	".simsLockup",
+	".detailsTags a", // cast, genres and tags
+].join(", ");
+
 export class Jawbone extends TitlePanel {
 	jawbone: Element | null;
 	inline: boolean;
 	slider: SliderData | null;
 	closed: boolean;
 	replacedEarlierJawbone: boolean;
-	tabPosition?: number;
-	tabs?: NodeListOf<Element>;
+	tabPosition: number;
+	tabs: Element[];
 	sliderPosition?: number;
+	prevTabAction: NavigationAction;
+	nextTabAction: NavigationAction;
+	tabChanged: boolean;
 
 	constructor(row: number, jawbone?: Element, slider?: SliderData) {
 		super(row);
@@ -27,6 +42,9 @@ export class Jawbone extends TitlePanel {
 		this.slider = slider ?? null;
 		this.closed = false;
 		this.replacedEarlierJawbone = false;
+		this.tabPosition = -1;
+		this.tabs = [];
+		this.tabChanged = false;
 
 		if (this.slider) {
 			this.slider.jawboneOpen = true;
@@ -36,18 +54,19 @@ export class Jawbone extends TitlePanel {
 			this.replaceInlineJawbone();
 		}
 
-		// TODO implement support for Jawbone menu navigation
-		// this.initTabs();
-		// this.nextTabAction = {
-		//     label: 'Next Tab',
-		//     index: GAMEPAD_BUTTONS.BUMPER_RIGHT,
-		//     onPress: () => this.selectTab(false)
-		// };
-		// this.prevTabAction = {
-		//     label: 'Previous Tab',
-		//     index: GAMEPAD_BUTTONS.BUMPER_LEFT,
-		//     onPress: () => this.selectTab(true)
-		// }
+		this.initTabs();
+		this.nextTabAction = {
+			label: "Next Tab",
+			index: GAMEPAD_BUTTONS.BUMPER_RIGHT,
+			id: "nextTab",
+			onPress: () => this.selectTab(true),
+		};
+		this.prevTabAction = {
+			label: "Previous Tab",
+			index: GAMEPAD_BUTTONS.BUMPER_LEFT,
+			id: "previousTab",
+			onPress: () => this.selectTab(false),
+		};
 	}
 
 	static getJawbone(row: number, slider?: SliderData): Jawbone | null {
@@ -62,19 +81,11 @@ export class Jawbone extends TitlePanel {
 	}
 
 	initTabs(): void {
-		this.tabPosition = -1;
 		const panel = this.getPanelComponent();
-		if (panel) {
-			this.tabs = panel.querySelectorAll(".menu > li");
-			if (this.tabs) {
-				for (let i = 0; i < this.tabs.length; i++) {
-					if (this.tabs[i]?.classList.contains("current")) {
-						this.tabPosition = i;
-						return;
-					}
-				}
-			}
-		}
+		this.tabs = panel ? Array.from(panel.querySelectorAll(".menu > li")) : [];
+		this.tabPosition = this.tabs.findIndex((tab) =>
+			tab.classList.contains("current"),
+		);
 	}
 
 	replaceInlineJawbone(): void {
@@ -101,27 +112,68 @@ export class Jawbone extends TitlePanel {
 			actions.push({
 				label: "Close",
 				index: GAMEPAD_BUTTONS.BUTTON_LEFT,
+				id: "collapse",
 				onPress: () => this.close(),
 			});
 		}
-		// if (this.tabPosition > 0) {
-		//     actions.push(this.prevTabAction);
-		// }
-		// if (this.tabPosition < this.tabs.length - 1) {
-		//     actions.push(this.nextTabAction);
-		// }
+		return [...actions, ...this.getTabActions()];
+	}
+
+	getTabActions(): NavigationAction[] {
+		const actions: NavigationAction[] = [];
+		if (this.tabPosition > 0) {
+			actions.push(this.prevTabAction);
+		}
+		if (this.tabPosition >= 0 && this.tabPosition < this.tabs.length - 1) {
+			actions.push(this.nextTabAction);
+		}
 		return actions;
 	}
 
+	/**
+	 * The title buttons of the Overview tab followed by the contents of the
+	 * other tabs, both only while they are shown.
+	 */
+	getComponents(): NavigatableComponent[] {
+		this.findButtons();
+		const content = Array.from(
+			this.getPanelComponent()?.querySelectorAll<HTMLElement>(
+				TAB_CONTENT_SELECTOR,
+			) ?? [],
+		);
+		return [...super.getComponents(), ...content].filter(isVisible);
+	}
+
+	// the tab contents are laid out in rows and grids
+	usesSpatialNavigation(): boolean {
+		return true;
+	}
+
+	interact(component: InteractiveComponent): void {
+		if (component.matches(".episodeLockup, .simsLockup")) {
+			// lockups are clicked through their play or title link
+			const link = component.querySelector<HTMLElement>("a, button");
+			super.interact(link ?? component);
+		} else {
+			super.interact(component);
+		}
+	}
+
 	enter(params: EnterParams) {
 		if ("position" in params && !("sliderPosition" in this)) {
 			// track parent slider position for when jawbone closes
 			this.sliderPosition = params.position;
 		}
 		super.enter(params);
+		// tab contents render after a tab is chosen and change with the season
+		const panel = this.getPanelComponent();
+		if (panel) {
+			this.observeComponents(panel);
+		}
 	}
 
 	exit(): ExitResult {
+		this.stopObservingComponents();
 		super.exit();
 		const params: ExitResult = { jawboneRow: this.row };
 		if ("sliderPosition" in this) {
@@ -145,10 +197,35 @@ export class Jawbone extends TitlePanel {
 		}
 	}
 
-	// selectTab(left) {
-	//     let newPosition = this.tabPosition + (left ? 1 : -1);
-	//     this.tabs[newPosition].click();
-	// }
+	selectTab(next: boolean): void {
+		this.initTabs();
+		const tab = this.tabs[this.tabPosition + (next ? 1 : -1)];
+		if (!tab) {
+			window.rumble?.("edge");
+			return;
+		}
+		window.actionHandler.removeAll(this.getTabActions());
+		(tab.querySelector<HTMLElement>("a") ?? (tab as HTMLElement)).click();
+		this.tabPosition = this.tabs.indexOf(tab);
+		window.actionHandler.addAll(this.getTabActions());
+		// select the first item of the new tab once it has rendered
+		this.tabChanged = true;
+	}
+
+	// the first item of a newly chosen tab is selected once it has rendered
+	refreshComponents(): void {
+		if (this.tabChanged) {
+			this.unselect();
+			this._components = null;
+			this.position = -1;
+			if (this.components.length > 0) {
+				this.tabChanged = false;
+				this.select(0);
+			}
+			return;
+		}
+		super.refreshComponents();
+	}
 
 	getPanelComponent() {
 		if (!this.jawbone) {
@@ -0,0 +1,108 @@
+import type { InputSink, InputSource } from "../../../types/handlers";
+import type { Settings } from "../../../types/settings";
+import { DEFAULT_KEY_MAP } from "../../../utils/key-map.ts";
+
+function isEditable(target: EventTarget | null): boolean {
+	return (
+		target instanceof HTMLInputElement ||
+		target instanceof HTMLTextAreaElement ||
+		(target instanceof HTMLElement && target.isContentEditable)
+	);
+}
+
+// keys that never edit text, such as those of a media remote
+function isRemoteKey(key: string): boolean {
+	return (
+		key === "Escape" ||
+		key === "GoBack" ||
+		key.startsWith("Media") ||
+		key.startsWith("Browser")
+	);
+}
+
+/**
+ * Presses gamepad buttons for the keys of a keyboard or TV remote, using the
+ * key map from the options. While navigation is active, mapped keys are kept
+ * from the page so Netflix does not handle them a second time; otherwise
+ * they keep working as Netflix's own shortcuts.
+ */
+export class KeyboardInput implements InputSource {
+	storage: Settings;
+	sink: InputSink;
+	// whether keys drive navigation rather than the page
+	isActive: () => boolean;
+	// called for a mapped key while inactive, to start keyboard navigation
+	onWake: () => void;
+	// buttons held down, by the key pressing them
+	pressed: Map<string, number>;
+
+	constructor(
+		storage: Settings,
+		sink: InputSink,
+		isActive: () => boolean,
+		onWake: () => void,
+	) {
+		this.storage = storage;
+		this.sink = sink;
+		this.isActive = isActive;
+		this.onWake = onWake;
+		this.pressed = new Map();
+		this.onKeyDown = this.onKeyDown.bind(this);
+		this.onKeyUp = this.onKeyUp.bind(this);
+		this.releaseAll = this.releaseAll.bind(this);
+	}
+
+	start(): void {
+		// capture phase runs before Netflix's own key handlers
+		window.addEventListener("keydown", this.onKeyDown, true);
+		window.addEventListener("keyup", this.onKeyUp, true);
+		window.addEventListener("blur", this.releaseAll);
+	}
+
+	stop(): void {
+		window.removeEventListener("keydown", this.onKeyDown, true);
+		window.removeEventListener("keyup", this.onKeyUp, true);
+		window.removeEventListener("blur", this.releaseAll);
+		this.releaseAll();
+	}
+
+	getButton(event: KeyboardEvent): number | undefined {
+		// synthetic events come from our own keyboard fallbacks
+		if (!event.isTrusted) return undefined;
+		// text fields keep their editing keys, only remote keys and Escape get through
+		if (isEditable(event.target) && !isRemoteKey(event.key)) return undefined;
+		return (this.storage.keyMap ?? DEFAULT_KEY_MAP)[event.key];
+	}
+
+	onKeyDown(event: KeyboardEvent): void {
+		const button = this.getButton(event);
+		if (button === undefined) return;
+		if (!this.isActive()) {
+			// the page handles this key, the next ones navigate
+			this.onWake();
+			return;
+		}
+		event.preventDefault();
+		event.stopPropagation();
+		// held directions repeat through the direction repeater instead
+		if (event.repeat || this.pressed.has(event.key)) return;
+		this.pressed.set(event.key, button);
+		this.sink.pressButton(button);
+	}
+
+	onKeyUp(event: KeyboardEvent): void {
+		const button = this.pressed.get(event.key);
+		if (button === undefined) return;
+		event.preventDefault();
+		event.stopPropagation();
+		this.pressed.delete(event.key);
+		this.sink.releaseButton(button);
+	}
+
+	releaseAll(): void {
+		for (const button of this.pressed.values()) {
+			this.sink.releaseButton(button);
+		}
+		this.pressed.clear();
+	}
+}
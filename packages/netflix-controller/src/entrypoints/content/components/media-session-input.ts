@@ -0,0 +1,70 @@
+import type { InputSink, InputSource } from "../../../types/handlers";
+import type { Settings } from "../../../types/settings";
+import { DEFAULT_KEY_MAP } from "../../../utils/key-map.ts";
+
+// media session actions and the media keys of the key map they stand for
+const MEDIA_SESSION_KEYS: [MediaSessionAction, string][] = [
+	["play", "MediaPlayPause"],
+	["pause", "MediaPlayPause"],
+	["previoustrack", "MediaTrackPrevious"],
+	["nexttrack", "MediaTrackNext"],
+	["seekbackward", "MediaRewind"],
+	["seekforward", "MediaFastForward"],
+];
+
+// the page sets metadata for the media it plays, along with its own handlers
+function isClaimedByPage(): boolean {
+	return navigator.mediaSession.metadata !== null;
+}
+
+/**
+ * Remotes and headsets often deliver media keys as media session actions
+ * rather than key events. Each action presses and releases the button its
+ * media key is mapped to. The handlers cannot be read back, so the media
+ * session is only taken over while the page has not claimed it, and left to
+ * the page once it has.
+ */
+export class MediaSessionInput implements InputSource {
+	storage: Settings;
+	sink: InputSink;
+	// whether the handlers are ours to remove
+	active: boolean;
+
+	constructor(storage: Settings, sink: InputSink) {
+		this.storage = storage;
+		this.sink = sink;
+		this.active = false;
+	}
+
+	start(): void {
+		if (!("mediaSession" in navigator) || isClaimedByPage()) return;
+		this.active = true;
+		for (const [action, key] of MEDIA_SESSION_KEYS) {
+			try {
+				navigator.mediaSession.setActionHandler(action, () => {
+					const button = (this.storage.keyMap ?? DEFAULT_KEY_MAP)[key];
+					if (button !== undefined) {
+						this.sink.pressButton(button);
+						this.sink.releaseButton(button);
+					}
+				});
+			} catch {
+				// action not supported by this browser
+			}
+		}
+	}
+
+	stop(): void {
+		if (!this.active) return;
+		this.active = false;
+		// Netflix replaced the handlers with its own for playback
+		if (isClaimedByPage()) return;
+		for (const [action] of MEDIA_SESSION_KEYS) {
+			try {
+				navigator.mediaSession.setActionHandler(action, null);
+			} catch {
+				// action not supported by this browser
+			}
+		}
+	}
+}
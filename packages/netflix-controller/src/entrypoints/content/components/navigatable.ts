@@ -4,6 +4,7 @@ import type {
 	NavigationAction,
 	Styler,
 } from "../../../types/components";
+import { DIRECTION } from "./direction.ts";
 
 export abstract class Navigatable {
 	styler: Styler | null;
@@ -27,6 +28,29 @@ export abstract class Navigatable {
 
 	abstract down(): void;
 
+	/**
+	 * Moves the selection in the direction and returns whether it moved, so
+	 * that the page can move on to a neighbouring navigatable otherwise.
+	 * Components that always handle a direction themselves can keep this.
+	 */
+	navigate(direction: number): boolean {
+		switch (direction) {
+			case DIRECTION.UP:
+				this.up();
+				break;
+			case DIRECTION.DOWN:
+				this.down();
+				break;
+			case DIRECTION.LEFT:
+				this.left();
+				break;
+			case DIRECTION.RIGHT:
+				this.right();
+				break;
+		}
+		return true;
+	}
+
 	abstract enter(params?: EnterParams): void;
 
 	abstract exit(): ExitResult;
@@ -35,6 +59,11 @@ export abstract class Navigatable {
 		// Base implementation does nothing
 	}
 
+	// true while an animation is running that further input would desync
+	isLocked(): boolean {
+		return false;
+	}
+
 	getActions(): NavigationAction[] {
 		return [];
 	}
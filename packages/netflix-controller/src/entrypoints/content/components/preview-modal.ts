@@ -0,0 +1,112 @@
+import { GAMEPAD_BUTTONS } from "@ribajs/gamecontroller.js";
+import type {
+	EnterParams,
+	ExitResult,
+	NavigatableComponent,
+	NavigationAction,
+	StyleableComponent,
+} from "../../../types/components.ts";
+import { Navigatable } from "./navigatable.ts";
+import { isVisible } from "./spatial-navigation.ts";
+import { StaticNavigatable } from "./static-navigatable.ts";
+
+// the full modal opened from a title; the smaller hover preview is left alone
+const MODAL_SELECTOR = ".previewModal--container.detail-modal";
+
+const COMPONENT_SELECTOR = [
+	'button[data-uia="play-button"]',
+	'button[data-uia*="my-list"]',
+	'button[data-uia*="thumbs"]', // rating, and the ratings it expands to
+	'.episodeSelector-dropdown [data-uia="dropdown-toggle"]',
+	".episodeSelector-dropdown li", // seasons while the dropdown is open
+	".titleCardList--container.episode-item",
+	'button[data-uia="section-expand"]', // shows the rest of the episodes
+].join(", ");
+
+/**
+ * The detail modal of a title, with its buttons, season selector and
+ * episode list. The modal scrolls on its own above the page.
+ */
+export class PreviewModal extends StaticNavigatable {
+	modal: Element;
+
+	constructor(modal: Element) {
+		super();
+		this.modal = modal;
+	}
+
+	static getPreviewModal(): PreviewModal | null {
+		const modal = document.querySelector(MODAL_SELECTOR);
+		return modal ? new PreviewModal(modal) : null;
+	}
+
+	getComponents(): NavigatableComponent[] {
+		return Array.from(
+			this.modal.querySelectorAll<HTMLElement>(COMPONENT_SELECTOR),
+		).filter(isVisible);
+	}
+
+	usesSpatialNavigation(): boolean {
+		return true;
+	}
+
+	// the page behind the modal must not scroll
+	shouldScrollIntoView(): boolean {
+		return false;
+	}
+
+	style(component: StyleableComponent, selected: boolean): void {
+		// hovering reveals episode play icons and the rating choices
+		if (selected) {
+			Navigatable.mouseOver(component);
+		} else {
+			Navigatable.mouseOut(component);
+		}
+	}
+
+	select(position: number): void {
+		super.select(position);
+		this.getSelectedComponent()?.scrollIntoView({
+			block: "nearest",
+			behavior: "smooth",
+		});
+	}
+
+	enter(params?: EnterParams): void {
+		// the episode list renders after the modal opens
+		this.observeComponents(this.modal);
+		if (this.components.length > 0) {
+			super.enter(params);
+		}
+	}
+
+	exit(): ExitResult {
+		this.stopObservingComponents();
+		return super.exit();
+	}
+
+	getActions(): NavigationAction[] {
+		return [
+			...super.getActions(),
+			{
+				label: "Close",
+				index: GAMEPAD_BUTTONS.BUTTON_LEFT,
+				id: "collapse",
+				onPress: () => this.close(),
+			},
+		];
+	}
+
+	isOpen(): boolean {
+		return this.modal.isConnected;
+	}
+
+	close(): void {
+		const button = this.modal.querySelector(
+			'[data-uia="previewModal-closebtn"]',
+		);
+		if (button) {
+			(button as HTMLElement).click();
+		}
+	}
+}
@@ -7,28 +7,17 @@ import type { PseudoStyler } from "../../../utils/pseudostyler.ts";
 import { StaticNavigatable } from "./static-navigatable.ts";
 
 export class SearchGallery extends StaticNavigatable {
-	private columnCount: number;
-	private resizeHandler: () => void;
 	private scrollHandler: () => void;
 	private resultsObserver: MutationObserver | null = null;
 
 	constructor() {
 		super();
-		this.columnCount = this.calculateColumnCount();
-
-		// Create a debounced resize handler
-		this.resizeHandler = this.debounce(() => {
-			this.columnCount = this.calculateColumnCount();
-		}, 250);
 
 		// Create a debounced scroll handler for infinity scroll
 		this.scrollHandler = this.debounce(() => {
 			this.refreshComponents();
 		}, 350);
 
-		// Add resize event listener
-		window.addEventListener("resize", this.resizeHandler);
-
 		// Add scroll event listener for infinity scroll
 		window.addEventListener("scroll", this.scrollHandler);
 
@@ -48,7 +37,6 @@ export class SearchGallery extends StaticNavigatable {
 	 * Clean up event listeners when this component is no longer needed
 	 */
 	cleanup(): void {
-		window.removeEventListener("resize", this.resizeHandler);
 		window.removeEventListener("scroll", this.scrollHandler);
 
 		if (this.resultsObserver) {
@@ -103,113 +91,29 @@ export class SearchGallery extends StaticNavigatable {
 		component.click();
 	}
 
-	/**
-	 * Get the number of columns based on window width
-	 * @returns The number of columns in the current view
-	 */
-	getColumnCount(): number {
-		return this.columnCount;
-	}
-
-	/**
-	 * Calculate the number of columns based on window width
-	 * @returns The number of columns in the current view
-	 */
-	private calculateColumnCount(): number {
-		const width = window.innerWidth;
-
-		if (width < 600) return 2;
-		if (width < 960) return 3;
-		if (width < 1280) return 4;
-		if (width < 1920) return 5;
-		return 6;
-	}
-
-	/**
-	 * Calculate the current row and column of a position in the grid
-	 * @param position The position to calculate row and column for
-	 * @returns An object with row and column properties
-	 */
-	getRowAndColumn(position: number): { row: number; column: number } {
-		const columns = this.getColumnCount();
-		return {
-			row: Math.floor(position / columns),
-			column: position % columns,
-		};
-	}
-
-	/**
-	 * Calculate position from row and column
-	 * @param row Row index
-	 * @param column Column index
-	 * @returns The position in the flat array
-	 */
-	getPositionFromRowAndColumn(row: number, column: number): number {
-		return row * this.getColumnCount() + column;
-	}
-
-	/**
-	 * Override up navigation to move to the item in the same column but previous row
-	 */
-	up(): void {
-		// First check if we have a valid position and components
-		if (this.position < 0 || this.components.length === 0) {
-			// If we're in an invalid state, try to reset by selecting the first component if available
-			if (this.components.length > 0) {
-				this.select(0);
-			}
-			return;
-		}
-
-		const { row, column } = this.getRowAndColumn(this.position);
-
-		if (row > 0) {
-			const prevPosition = this.getPositionFromRowAndColumn(row - 1, column);
-
-			// Check if the component at this position is valid
-			if (
-				prevPosition >= 0 &&
-				prevPosition < this.components.length &&
-				this.components[prevPosition]
-			) {
-				// Move to the previous row in the same column
-				this.select(prevPosition);
-			} else {
-				// Component at previous position is invalid, refresh components and try again
-				this.refreshComponents();
-			}
-		}
-		// If at the top row, do nothing
+	usesSpatialNavigation(): boolean {
+		return true;
 	}
 
 	/**
-	 * Override down navigation to move to the item in the same column but next row
+	 * Moves to the nearest card on screen, so the grid follows whatever column
+	 * count the page layout currently has.
 	 */
-	down(): void {
+	navigate(direction: number): boolean {
 		// First check if we have a valid position and components
 		if (this.position < 0 || this.components.length === 0) {
 			// If we're in an invalid state, try to reset by selecting the first component if available
 			if (this.components.length > 0) {
 				this.select(0);
 			}
-			return;
+			return true;
 		}
-
-		const { row, column } = this.getRowAndColumn(this.position);
-		const nextRow = row + 1;
-		const nextPosition = this.getPositionFromRowAndColumn(nextRow, column);
-
-		// Check if next position exists and doesn't exceed the total number of items
-		if (nextPosition < this.components.length) {
-			// Also check if the component at this position is valid
-			if (this.components[nextPosition]) {
-				this.select(nextPosition);
-			} else {
-				// Component at next position is invalid, refresh components and try again
-				this.refreshComponents();
-			}
+		if (super.navigate(direction)) {
+			return true;
 		}
-		// If at the bottom row, do nothing
+		// more results may have been loaded since the components were cached
+		this.refreshComponents();
+		return super.navigate(direction);
 	}
 
 	/**
@@ -6,6 +6,7 @@ import type {
 	NavigationAction,
 } from "../../../types/components";
 import type { ActionHandler } from "../../../types/handlers";
+import { DIRECTION } from "./direction.ts";
 import { Navigatable } from "./navigatable.ts";
 
 declare let actionHandler: ActionHandler;
@@ -37,6 +38,7 @@ export class Slider extends Navigatable {
 		this.jawboneAction = {
 			label: "Expand",
 			index: GAMEPAD_BUTTONS.BUTTON_LEFT,
+			id: "expand",
 			onPress: () => this.openJawbone(),
 		};
 
@@ -115,16 +117,19 @@ export class Slider extends Navigatable {
 	}
 
 	getActions(): NavigationAction[] {
-		const actions: NavigationAction[] = [
-			{
-				label: "Play",
-				index: GAMEPAD_BUTTONS.BUTTON_BOTTOM,
-				onPress: () => {
-					this.clickHitzone(".previewModal--player_container");
-				},
+		const playAction: NavigationAction = {
+			label: "Play",
+			index: GAMEPAD_BUTTONS.BUTTON_BOTTOM,
+			id: "play",
+			onPress: () => {
+				this.clickHitzone(".previewModal--player_container");
 			},
-		];
+		};
+		const actions: NavigationAction[] = [playAction];
 		if (!this.jawboneOpen && this.jawboneAction) {
+			// holding play opens the details as well
+			playAction.onLongPress = () => this.openJawbone();
+			playAction.longPressLabel = "Details";
 			actions.push(this.jawboneAction);
 		}
 		return actions;
@@ -153,6 +158,11 @@ export class Slider extends Navigatable {
 						this.locked = false;
 					}, heightDuration + 300); // extra 300ms for smoothness
 				}
+			} else {
+				// current layouts open a preview modal instead, which the page picks up
+				this.clickHitzone(
+					'.previewModal--container.mini-modal [data-uia="expand-to-detail-button"]',
+				);
 			}
 		}
 	}
@@ -172,6 +182,10 @@ export class Slider extends Navigatable {
 		return boxarts[boxarts.length - 1];
 	}
 
+	isLocked(): boolean {
+		return this.locked;
+	}
+
 	/**
 	 * Scrolls the viewport to be centered vertically on this slider.
 	 */
@@ -236,10 +250,11 @@ export class Slider extends Navigatable {
 
 	/**
 	 * Selects either the next or previous slider element, shifting the slider if necessary.
+	 * Returns false at the start or end of the row.
 	 */
-	select(next: boolean): void {
+	select(next: boolean): boolean {
 		if (this.locked) {
-			return; // another interaction is in progress; do not initiate a new one
+			return true; // another interaction is in progress; do not initiate a new one
 		}
 		let selected = false;
 		const target = next
@@ -272,7 +287,7 @@ export class Slider extends Navigatable {
 			currentHandler.inlineJawbone = null;
 			currentHandler.removeNavigatable(currentHandler.position + 1);
 		}
-		// if false, vibrate? cannot move slider
+		return selected;
 	}
 
 	/**
@@ -318,6 +333,16 @@ export class Slider extends Navigatable {
 		this.canShiftLeft = true;
 	}
 
+	/**
+	 * Moves within the row; rows above and below are found by the page.
+	 */
+	navigate(direction: number): boolean {
+		if (direction === DIRECTION.LEFT || direction === DIRECTION.RIGHT) {
+			return this.select(direction === DIRECTION.RIGHT);
+		}
+		return false;
+	}
+
 	/**
 	 * Move up to the previous row's slider
 	 * This is handled by the NavigatablePage's onDirectionAction
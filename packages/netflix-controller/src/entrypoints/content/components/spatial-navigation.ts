@@ -0,0 +1,80 @@
+import { DIRECTION } from "./direction.ts";
+
+// sideways offset counts this much more than distance in the pressed direction
+const ORTHOGONAL_WEIGHT = 2;
+
+// candidates may overlap the origin by this many pixels, e.g. scaled boxart
+const OVERLAP_TOLERANCE = 8;
+
+// elements without a box, such as hidden or collapsed ones, cannot be selected
+export function isVisible(element: Element): boolean {
+	const rect = element.getBoundingClientRect();
+	return rect.width > 0 && rect.height > 0;
+}
+
+/**
+ * Returns the candidate nearest to the origin in the given direction, or null
+ * if none lies in that direction. Candidates must start beyond the origin's
+ * edge and are scored by their distance from it, with offsets along the other
+ * axis weighted higher so that the candidate in line with the origin wins.
+ */
+export function findNearest<T extends Element>(
+	origin: Element | DOMRect,
+	candidates: Iterable<T>,
+	direction: number,
+): T | null {
+	const from =
+		origin instanceof Element ? origin.getBoundingClientRect() : origin;
+	const vertical = direction === DIRECTION.UP || direction === DIRECTION.DOWN;
+	let nearest: T | null = null;
+	let nearestScore = Number.POSITIVE_INFINITY;
+	for (const candidate of candidates) {
+		if (candidate === origin || !isVisible(candidate)) {
+			continue;
+		}
+		const rect = candidate.getBoundingClientRect();
+		const distance = getDistance(from, rect, direction);
+		if (distance === null) {
+			continue;
+		}
+		const offset = vertical
+			? Math.abs(getCenter(rect).x - getCenter(from).x)
+			: Math.abs(getCenter(rect).y - getCenter(from).y);
+		const score = distance + offset * ORTHOGONAL_WEIGHT;
+		if (score < nearestScore) {
+			nearest = candidate;
+			nearestScore = score;
+		}
+	}
+	return nearest;
+}
+
+// gap between the origin's edge and the candidate, or null if it is not in the direction
+function getDistance(
+	from: DOMRect,
+	rect: DOMRect,
+	direction: number,
+): number | null {
+	let distance: number;
+	switch (direction) {
+		case DIRECTION.UP:
+			distance = from.top - rect.bottom;
+			break;
+		case DIRECTION.DOWN:
+			distance = rect.top - from.bottom;
+			break;
+		case DIRECTION.LEFT:
+			distance = from.left - rect.right;
+			break;
+		case DIRECTION.RIGHT:
+			distance = rect.left - from.right;
+			break;
+		default:
+			return null;
+	}
+	return distance >= -OVERLAP_TOLERANCE ? Math.max(distance, 0) : null;
+}
+
+function getCenter(rect: DOMRect): { x: number; y: number } {
+	return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 };
+}
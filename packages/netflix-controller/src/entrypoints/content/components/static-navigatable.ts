@@ -7,7 +7,9 @@ import type {
 	NavigationAction,
 	StyleableComponent,
 } from "../../../types/components";
+import { DIRECTION } from "./direction.ts";
 import { Navigatable } from "./navigatable.ts";
+import { findNearest } from "./spatial-navigation.ts";
 
 // Import from content/index.ts - this would normally be a separate utility
 declare function getTransparentNetflixRed(opacity: number): string;
@@ -15,6 +17,8 @@ declare function getTransparentNetflixRed(opacity: number): string;
 export abstract class StaticNavigatable extends Navigatable {
 	position: number;
 	_components: NavigatableComponent[] | null = null;
+	componentObserver: MutationObserver | null = null;
+	refreshTimeout: number | null = null;
 
 	constructor() {
 		super();
@@ -73,24 +77,54 @@ export abstract class StaticNavigatable extends Navigatable {
 		return true;
 	}
 
-	left(): void {
-		if (this.position > 0) {
-			this.select(this.position - 1);
+	// can be overriden to pick the next component by its position on screen
+	// instead of moving left and right through the components in order
+	usesSpatialNavigation(): boolean {
+		return false;
+	}
+
+	navigate(direction: number): boolean {
+		if (this.usesSpatialNavigation()) {
+			const current = this.getSelectedComponent();
+			const next = current
+				? findNearest(current, this.components, direction)
+				: null;
+			if (next) {
+				this.select(this.components.indexOf(next));
+			}
+			return next !== null;
 		}
+		let position = this.position;
+		if (direction === DIRECTION.LEFT) {
+			position--;
+		} else if (direction === DIRECTION.RIGHT) {
+			position++;
+		}
+		if (
+			position === this.position ||
+			position < 0 ||
+			position >= this.components.length
+		) {
+			return false;
+		}
+		this.select(position);
+		return true;
+	}
+
+	left(): void {
+		this.navigate(DIRECTION.LEFT);
 	}
 
 	right(): void {
-		if (this.position < this.components.length - 1) {
-			this.select(this.position + 1);
-		}
+		this.navigate(DIRECTION.RIGHT);
 	}
 
 	up(): void {
-		// Base implementation does nothing - should be overridden by grid layouts
+		this.navigate(DIRECTION.UP);
 	}
 
 	down(): void {
-		// Base implementation does nothing - should be overridden by grid layouts
+		this.navigate(DIRECTION.DOWN);
 	}
 
 	enter(_params?: EnterParams): void {
@@ -108,6 +142,7 @@ export abstract class StaticNavigatable extends Navigatable {
 			{
 				label: "Select",
 				index: GAMEPAD_BUTTONS.BUTTON_BOTTOM,
+				id: "select",
 				onPress: () => this.interact(this.getInteractionComponent()),
 			},
 		];
@@ -140,7 +175,57 @@ export abstract class StaticNavigatable extends Navigatable {
 	 * Override in subclasses if needed
 	 */
 	cleanup(): void {
-		// Base implementation does nothing
+		this.stopObservingComponents();
+	}
+
+	/**
+	 * Refreshes the components whenever the contents of the root change, for
+	 * components that render or re-render while this navigatable is entered.
+	 */
+	observeComponents(root: Element): void {
+		if (this.componentObserver) {
+			return;
+		}
+		this.componentObserver = new MutationObserver(() => {
+			if (this.refreshTimeout !== null) {
+				window.clearTimeout(this.refreshTimeout);
+			}
+			this.refreshTimeout = window.setTimeout(() => {
+				this.refreshTimeout = null;
+				this.refreshComponents();
+			}, 100);
+		});
+		this.componentObserver.observe(root, { childList: true, subtree: true });
+	}
+
+	stopObservingComponents(): void {
+		this.componentObserver?.disconnect();
+		this.componentObserver = null;
+		if (this.refreshTimeout !== null) {
+			window.clearTimeout(this.refreshTimeout);
+			this.refreshTimeout = null;
+		}
+	}
+
+	/**
+	 * Looks up the components again, keeping the selected one if it still
+	 * exists and selecting the first one otherwise.
+	 */
+	refreshComponents(): void {
+		const selected = this.getSelectedComponent();
+		const components = this.getComponents();
+		const position = selected ? components.indexOf(selected) : -1;
+		if (position >= 0) {
+			this._components = components;
+			this.position = position;
+			return;
+		}
+		this.unselect();
+		this._components = components;
+		this.position = -1;
+		if (components.length > 0) {
+			this.select(0);
+		}
 	}
 
 	select(position: number): void {
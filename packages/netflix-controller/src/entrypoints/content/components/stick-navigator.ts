@@ -0,0 +1,78 @@
+import type { Settings } from "../../../types/settings";
+import {
+	calibrateStick,
+	DEFAULT_STICK_CALIBRATION,
+	getStickCalibration,
+	getStickDirection,
+} from "../../../utils/stick-calibration.ts";
+
+// standard mapping axes of the left stick
+const LEFT_STICK_X_AXIS = 0;
+const LEFT_STICK_Y_AXIS = 1;
+
+/**
+ * Turns left stick deflection into direction presses and releases, using the
+ * calibration stored for each controller, or else the dead zone and threshold
+ * of the active controller profile. Polled once per gamepad cycle.
+ */
+export class StickNavigator {
+	storage: Settings;
+	onPress: (direction: number) => void;
+	onRelease: (direction: number) => void;
+	// whether input of the gamepad at the given index should be handled
+	accept: (index: number) => boolean;
+	// direction currently pressed on each gamepad, by gamepad index
+	directions: Record<number, number | null>;
+
+	constructor(
+		storage: Settings,
+		onPress: (direction: number) => void,
+		onRelease: (direction: number) => void,
+		accept: (index: number) => boolean,
+	) {
+		this.storage = storage;
+		this.onPress = onPress;
+		this.onRelease = onRelease;
+		this.accept = accept;
+		this.directions = {};
+	}
+
+	update(): void {
+		for (const gamepad of navigator.getGamepads()) {
+			if (!gamepad) continue;
+			const calibration = getStickCalibration(
+				this.storage.stickCalibrations,
+				gamepad.id,
+				{
+					...DEFAULT_STICK_CALIBRATION,
+					deadZone: this.storage.stickDeadZone,
+					threshold: this.storage.stickThreshold,
+				},
+			);
+			const stick = calibrateStick(
+				gamepad.axes[LEFT_STICK_X_AXIS] ?? 0,
+				gamepad.axes[LEFT_STICK_Y_AXIS] ?? 0,
+				calibration,
+			);
+			const current = this.directions[gamepad.index] ?? null;
+			let direction = getStickDirection(stick, calibration, current);
+			if (direction !== null && !this.accept(gamepad.index)) {
+				direction = null;
+			}
+			if (direction !== current) {
+				this.directions[gamepad.index] = direction;
+				if (current !== null) {
+					this.onRelease(current);
+				}
+				if (direction !== null) {
+					this.onPress(direction);
+				}
+			}
+		}
+	}
+
+	// forget the pressed directions so they are not released later
+	reset(): void {
+		this.directions = {};
+	}
+}
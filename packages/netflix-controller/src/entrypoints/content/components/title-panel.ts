@@ -15,7 +15,11 @@ export class TitlePanel extends StaticNavigatable {
 		this.row = row;
 		this.primaryButton = null;
 		this.secondaryButton = null;
+		this.findButtons();
+	}
 
+	// can be called again by panels that re-render their buttons
+	findButtons(): void {
 		const panel = this.getPanelComponent();
 		const baseSelector = this.getButtonSelector();
 
@@ -2,26 +2,39 @@ import gameControl, {
 	GAMEPAD_BUTTONS,
 	type GamepadState,
 } from "@ribajs/gamecontroller.js";
-// injectScript is available globally in content scripts
 import type { ExitResult, NavigationAction } from "../../types/components";
+import type { InputSink, InputSource, PageRoute } from "../../types/handlers";
 import type { ContentScriptMessage } from "../../types/messages";
 import type { Settings } from "../../types/settings";
-import { getControllerMapping } from "../../utils/controller-detection";
+import {
+	applyControllerProfile,
+	getControllerProfile,
+	type ProfileSettings,
+} from "../../utils/controller-profiles.ts";
 import { gamepadMappings } from "../../utils/gamepad-icons.ts";
+import { type HapticEffect, playHapticEffect } from "../../utils/haptics.ts";
+import { DEFAULT_KEY_MAP } from "../../utils/key-map.ts";
 import * as S from "../../utils/storage-items";
 
 // Import CSS - WXT will automatically add this to the manifest
 import "../../../public/assets/styles/content.css";
 
+import { GamepadRegistry } from "./components/gamepad-registry.ts";
+import { InputRecorder } from "./components/input-recorder.ts";
 // Components
-import { DIRECTION } from "./components/direction.js";
+import { KeyboardInput } from "./components/keyboard-input.ts";
+import { MediaSessionInput } from "./components/media-session-input.ts";
 import { Navigatable } from "./components/navigatable.js";
+import { StickNavigator } from "./components/stick-navigator.ts";
+import { netflixBridge } from "./netflix-bridge.ts";
 // Page handlers
 import { ChooseProfile } from "./pages/choose-profile.js";
 import { FeaturedBrowse } from "./pages/featured-browse.js";
 import { FeaturelessBrowse } from "./pages/featureless-browse.js";
+import { GenericPage } from "./pages/generic.ts";
 import { LatestBrowse } from "./pages/latest-browse.js";
 import type { NavigatablePage } from "./pages/page";
+import { type PageHandlerClass, pageRoutes } from "./pages/routes.ts";
 import { SearchBrowse } from "./pages/search.js";
 import { TitleBrowse } from "./pages/title-browse.js";
 import { WatchVideo } from "./pages/watch.js";
@@ -30,6 +43,7 @@ import { ActionHandler } from "./ui/actions.js";
 import { CompatibilityWarningBar as CompatibilityWarningBarImpl } from "./ui/compatibility-warning.js";
 import { ConnectionHintBar as ConnectionHintBarImpl } from "./ui/connection-hint.js";
 import { ErrorBar as ErrorBarImpl } from "./ui/error-bar.js";
+import { VirtualCursor } from "./ui/virtual-cursor.ts";
 import { VirtualKeyboard as VirtualKeyboardImpl } from "./ui/virtual-keyboard.js";
 
 export default defineContentScript({
@@ -45,8 +59,10 @@ export default defineContentScript({
 		gamepadMappings.buttonsPath = "assets/buttons";
 
 		let currentPath: string | null = null;
-		let numGamepads = 0;
-		let hasConnectedGamepad = false;
+		// set once a gamepad or keyboard was used, loading the page handlers
+		let navigationStarted = false;
+		let keyboardInputUsed = false;
+		let keyboardInputStarted = false;
 		let keyboard: VirtualKeyboardImpl | null = null;
 		let gamepadInputEnabled = true; // Controls whether gamepad input is processed
 		const handlerHistory: string[] = [];
@@ -56,20 +72,91 @@ export default defineContentScript({
 			buttonImageMapping: "Xbox Series",
 			showConnectionHint: true,
 			showCompatibilityWarning: true,
+			skipIntro: "Show button",
+			skipRecap: "Show button",
+			skipCredits: "Off",
+			buttonBindings: {},
+			directionRepeat: true,
+			repeatDelay: 400,
+			repeatRate: 8,
+			repeatAcceleration: true,
+			stickDeadZone: 0.15,
+			stickThreshold: 0.5,
+			stickCalibrations: {},
+			keyboardInput: false,
+			keyMap: DEFAULT_KEY_MAP,
+			primaryController: "First active",
+			pinnedController: "",
+			controllerSettings: {},
+			hapticIntensity: 50,
+		};
+		// settings from storage, overridden by the profile of the active controller
+		const globalSettings: ProfileSettings = {
+			buttonBindings: settings.buttonBindings,
+			directionRepeat: settings.directionRepeat,
+			repeatDelay: settings.repeatDelay,
+			repeatRate: settings.repeatRate,
+			repeatAcceleration: settings.repeatAcceleration,
+			stickDeadZone: settings.stickDeadZone,
+			stickThreshold: settings.stickThreshold,
+			hapticIntensity: settings.hapticIntensity,
 		};
 		const actionHandler = new ActionHandler(settings);
+		const registry = new GamepadRegistry(settings);
+		registry.onChange = () => {
+			applyProfile();
+			actionHandler.setButtonMapping(registry.getActive()?.mapping ?? null);
+		};
+		const stickNavigator = new StickNavigator(
+			settings,
+			(direction) => input.pressDirection(direction),
+			(direction) => input.releaseDirection(direction),
+			(index) => registry.accept(index),
+		);
 		const connectionHintBar = new ConnectionHintBarImpl();
 		const compatibilityWarning = new CompatibilityWarningBarImpl();
 		const errorBar = new ErrorBarImpl();
-		const pageHandlers: (
-			| typeof ChooseProfile
-			| typeof FeaturedBrowse
-			| typeof FeaturelessBrowse
-			| typeof LatestBrowse
-			| typeof TitleBrowse
-			| typeof SearchBrowse
-			| typeof WatchVideo
-		)[] = [
+		// every input device goes through the recorder to the action handler
+		const recorder = new InputRecorder(
+			{
+				pressButton: (index) =>
+					handleInput(() => actionHandler.onButtonPress(index)),
+				releaseButton: (index) =>
+					handleInput(() => actionHandler.onButtonRelease(index)),
+				pressDirection: (direction) =>
+					handleInput(() => actionHandler.pressDirection(direction)),
+				releaseDirection: (direction) =>
+					handleInput(() => actionHandler.releaseDirection(direction)),
+			},
+			() => currentHandler?.constructor.name ?? null,
+		);
+		recorder.onReplay = startNavigation;
+		const input: InputSink = recorder.sink;
+		const keyboardSink: InputSink = {
+			...input,
+			pressButton: (index) => {
+				useKeyboardInput();
+				input.pressButton(index);
+			},
+		};
+		const keyboardSources: InputSource[] = [
+			new KeyboardInput(
+				settings,
+				keyboardSink,
+				() => gamepadInputEnabled && navigationStarted,
+				() => {
+					if (gamepadInputEnabled) useKeyboardInput();
+				},
+			),
+			new MediaSessionInput(settings, keyboardSink),
+		];
+		const virtualCursor = new VirtualCursor(
+			() => gamepadInputEnabled,
+			getActiveGamepad,
+		);
+		// page handler state to restore once cursor mode ends
+		let cursorHandlerState: ExitResult | null = null;
+		for (const handler of [
 			ChooseProfile,
 			FeaturedBrowse,
 			FeaturelessBrowse,
@@ -77,18 +164,40 @@ export default defineContentScript({
 			TitleBrowse,
 			SearchBrowse,
 			WatchVideo,
-		];
+			GenericPage,
+		]) {
+			pageRoutes.register(handler);
+		}
 
 		const searchAction: NavigationAction = {
 			label: "Search",
 			index: GAMEPAD_BUTTONS.BUTTON_TOP,
+			id: "search",
 			onPress: openSearch,
 		};
 
 		const backAction: NavigationAction = {
 			label: "Back",
 			index: GAMEPAD_BUTTONS.BUTTON_RIGHT,
+			id: "back",
 			onPress: goBack,
+			onLongPress: goHome,
+			longPressLabel: "Home",
+		};
+
+		// the left stick only acts while held, so holding it for the chord delays no other action
+		const hintsChord: NavigationAction = {
+			label: "Toggle Hints",
+			index: GAMEPAD_BUTTONS.BUTTON_JOYSTICK_LEFT,
+			chord: GAMEPAD_BUTTONS.BUTTON_JOYSTICK_RIGHT,
+			onPress: () => S.showActionHints.set(!settings.showActionHints),
+		};
+
+		const cursorAction: NavigationAction = {
+			label: "Cursor",
+			index: GAMEPAD_BUTTONS.BUTTON_JOYSTICK_RIGHT,
+			id: "cursorToggle",
+			onPress: toggleCursor,
 		};
 
 		// Initialize settings from storage and wire change listeners
@@ -105,8 +214,52 @@ export default defineContentScript({
 			S.showCompatibilityWarning.get().then((v) => {
 				settings.showCompatibilityWarning = v ?? true;
 			}),
+			S.buttonBindings.get().then((v) => {
+				globalSettings.buttonBindings = v ?? {};
+			}),
+			S.directionRepeat.get().then((v) => {
+				globalSettings.directionRepeat = v ?? true;
+			}),
+			S.repeatDelay.get().then((v) => {
+				globalSettings.repeatDelay = v ?? 400;
+			}),
+			S.repeatRate.get().then((v) => {
+				globalSettings.repeatRate = v ?? 8;
+			}),
+			S.repeatAcceleration.get().then((v) => {
+				globalSettings.repeatAcceleration = v ?? true;
+			}),
+			S.stickDeadZone.get().then((v) => {
+				globalSettings.stickDeadZone = v ?? 0.15;
+			}),
+			S.stickThreshold.get().then((v) => {
+				globalSettings.stickThreshold = v ?? 0.5;
+			}),
+			S.stickCalibrations.get().then((v) => {
+				settings.stickCalibrations = v ?? {};
+			}),
+			S.keyboardInput.get().then((v) => {
+				settings.keyboardInput = v ?? false;
+			}),
+			S.keyMap.get().then((v) => {
+				settings.keyMap = v ?? DEFAULT_KEY_MAP;
+			}),
+			S.primaryController.get().then((v) => {
+				settings.primaryController = v ?? "First active";
+			}),
+			S.pinnedController.get().then((v) => {
+				settings.pinnedController = v ?? "";
+			}),
+			S.controllerSettings.get().then((v) => {
+				settings.controllerSettings = v ?? {};
+			}),
+			S.hapticIntensity.get().then((v) => {
+				globalSettings.hapticIntensity = v ?? 50;
+			}),
 		])
 			.then(() => {
+				registry.refresh();
+				updateKeyboardInput();
 				showConnectionHint();
 				showActionHints();
 				updateCompatibility();
@@ -121,7 +274,7 @@ export default defineContentScript({
 		});
 		S.buttonImageMapping.onChanged((val) => {
 			settings.buttonImageMapping = val;
-			actionHandler.updateHints();
+			registry.refresh();
 		});
 		S.showConnectionHint.onChanged((val) => {
 			settings.showConnectionHint = val;
@@ -131,6 +284,60 @@ export default defineContentScript({
 			settings.showCompatibilityWarning = val;
 			updateCompatibility();
 		});
+		S.buttonBindings.onChanged((val) => {
+			globalSettings.buttonBindings = val ?? {};
+			applyProfile();
+		});
+		S.directionRepeat.onChanged((val) => {
+			globalSettings.directionRepeat = val;
+			applyProfile();
+		});
+		S.repeatDelay.onChanged((val) => {
+			globalSettings.repeatDelay = val;
+			applyProfile();
+		});
+		S.repeatRate.onChanged((val) => {
+			globalSettings.repeatRate = val;
+			applyProfile();
+		});
+		S.repeatAcceleration.onChanged((val) => {
+			globalSettings.repeatAcceleration = val;
+			applyProfile();
+		});
+		S.stickDeadZone.onChanged((val) => {
+			globalSettings.stickDeadZone = val;
+			applyProfile();
+		});
+		S.stickThreshold.onChanged((val) => {
+			globalSettings.stickThreshold = val;
+			applyProfile();
+		});
+		S.stickCalibrations.onChanged((val) => {
+			settings.stickCalibrations = val ?? {};
+		});
+		S.keyboardInput.onChanged((val) => {
+			settings.keyboardInput = val;
+			updateKeyboardInput();
+		});
+		S.keyMap.onChanged((val) => {
+			settings.keyMap = val ?? DEFAULT_KEY_MAP;
+		});
+		S.primaryController.onChanged((val) => {
+			settings.primaryController = val;
+			registry.refresh();
+		});
+		S.pinnedController.onChanged((val) => {
+			settings.pinnedController = val ?? "";
+			registry.refresh();
+		});
+		S.controllerSettings.onChanged((val) => {
+			settings.controllerSettings = val ?? {};
+			registry.refresh();
+		});
+		S.hapticIntensity.onChanged((val) => {
+			globalSettings.hapticIntensity = val;
+			applyProfile();
+		});
 
 		browser.runtime.onMessage.addListener(
 			(
@@ -139,13 +346,15 @@ export default defineContentScript({
 				_sendResponse: unknown,
 			) => {
 				if (request.message === "locationChanged") {
-					if (hasConnectedGamepad) {
+					if (navigationStarted) {
 						// load plugin core only if user is using gamepad in this session
 						runHandler(request.path);
 					}
 				} else if (request.message === "disableGamepadInput") {
 					// Disable input processing while popup is open (events still fire, but are ignored)
 					gamepadInputEnabled = false;
+					actionHandler.releaseAll();
+					stickNavigator.reset();
 					log("Gamepad input disabled (popup open)");
 				} else if (request.message === "enableGamepadInput") {
 					// Re-enable input processing when popup closes
@@ -159,38 +368,26 @@ export default defineContentScript({
 			if (forceLoad || path !== currentPath) {
 				unload();
 				refreshPageIfBad();
-				let found = false;
-				for (let i = 0; !found && i < pageHandlers.length; i++) {
-					if (
-						(
-							pageHandlers[i] as { validatePath: (path: string) => boolean }
-						).validatePath(path)
-					) {
-						log(
-							`Loading ${(pageHandlers[i] as { name: string }).name} module for ${path}`,
-						);
-						await loadPage(pageHandlers[i]);
-						found = true;
-					}
-				}
-				if (!found) {
-					warn(`No module found for ${path}`);
+				const match = pageRoutes.match(path);
+				const checks = pageRoutes.lastDecision?.checks
+					.map((check) => `${check.handler}: ${check.reason}`)
+					.join(", ");
+				if (match) {
+					log(`Loading ${match.handler.name} module for ${path} (${checks})`);
+					await loadPage(match.handler, match.route);
+				} else {
+					warn(`No module found for ${path} (${checks})`);
 				}
 				currentPath = path;
 			}
 		}
 
 		async function loadPage(
-			handlerClass:
-				| typeof ChooseProfile
-				| typeof FeaturedBrowse
-				| typeof FeaturelessBrowse
-				| typeof LatestBrowse
-				| typeof TitleBrowse
-				| typeof SearchBrowse
-				| typeof WatchVideo,
+			handlerClass: PageHandlerClass,
+			route: PageRoute = handlerClass.route,
 		) {
 			currentHandler = new handlerClass();
+			currentHandler.routeReady = route.isReady ?? null;
 			if (currentHandler?.hasPath()) {
 				addHistory();
 			}
@@ -205,6 +402,9 @@ export default defineContentScript({
 		}
 
 		function unload() {
+			if (virtualCursor.isActive()) {
+				closeCursor(false);
+			}
 			if (currentHandler) {
 				currentHandler.unload();
 				currentHandler = null;
@@ -219,24 +419,30 @@ export default defineContentScript({
 		}
 
 		function setPageActions() {
-			if (!keyboard && currentHandler) {
+			if (!keyboard && !virtualCursor.isActive() && currentHandler) {
+				actionHandler.addAll([cursorAction, hintsChord]);
 				if (currentHandler.hasSearchBar()) {
 					actionHandler.addAction(searchAction);
 				} else {
 					actionHandler.removeAction(searchAction);
 				}
-				if (handlerHistory.length >= 2) {
+				if (handlerHistory.length >= 2 || currentHandler.needsBackAction()) {
 					actionHandler.addAction(backAction);
 				} else {
 					actionHandler.removeAction(backAction);
 				}
 				actionHandler.onDirection =
 					currentHandler.onDirectionAction.bind(currentHandler);
+				actionHandler.isDirectionLocked =
+					currentHandler.isNavigationLocked.bind(currentHandler);
 			}
 		}
 
 		function showActionHints() {
-			if (numGamepads > 0 && (settings.showActionHints ?? true)) {
+			if (
+				(registry.size() > 0 || keyboardInputUsed) &&
+				(settings.showActionHints ?? true)
+			) {
 				actionHandler.showHints();
 			} else {
 				actionHandler.hideHints();
@@ -244,7 +450,11 @@ export default defineContentScript({
 		}
 
 		function showConnectionHint() {
-			if (numGamepads === 0 && (settings.showConnectionHint ?? true)) {
+			if (
+				registry.size() === 0 &&
+				!keyboardInputUsed &&
+				(settings.showConnectionHint ?? true)
+			) {
 				connectionHintBar.add();
 			} else {
 				connectionHintBar.remove();
@@ -254,7 +464,7 @@ export default defineContentScript({
 		function updateCompatibility() {
 			if (
 				(settings.showCompatibilityWarning ?? true) &&
-				numGamepads > 0 &&
+				registry.size() > 0 &&
 				!isStandardGamepadConnected()
 			) {
 				compatibilityWarning.add();
@@ -270,12 +480,35 @@ export default defineContentScript({
 			console.error("Error name:", error.name);
 			errorBar.setError(error.message, timeout);
 			errorBar.add();
+			rumble("error");
 		}
 
 		function showTempError(error: Error) {
 			showError(error, ERROR_ALERT_DURATION);
 		}
 
+		// apply the profile of the controller that drives navigation, if any
+		function applyProfile() {
+			const controller = registry.getActive();
+			const profile = controller
+				? getControllerProfile(settings.controllerSettings, controller.id)
+				: {};
+			Object.assign(settings, applyControllerProfile(globalSettings, profile));
+			actionHandler.rebindActions();
+		}
+
+		// the primary controller's current state, which alone drives analog input
+		function getActiveGamepad(): Gamepad | null {
+			const controller = registry.getActive();
+			return controller
+				? (navigator.getGamepads()[controller.index] ?? null)
+				: null;
+		}
+
+		function rumble(effect: HapticEffect) {
+			playHapticEffect(getActiveGamepad(), effect, settings.hapticIntensity);
+		}
+
 		function log(message: string) {
 			console.log(`NETFLIX-CONTROLLER: ${message}`);
 		}
@@ -293,11 +526,10 @@ export default defineContentScript({
 		log("Listening for gamepad connections.");
 
 		// Inject the main world Netflix API script for watch pages
-		injectScript("/netflix-main-world.js", {
-			keepInDom: true,
-		}).catch((error: unknown) => {
+		netflixBridge.inject("/netflix-main-world.js");
+		netflixBridge.ready.catch((error: unknown) => {
 			console.warn(
-				"[NETFLIX-CONTROLLER] Failed to inject main world script:",
+				"[NETFLIX-CONTROLLER] Main world bridge unavailable:",
 				error,
 			);
 		});
@@ -312,123 +544,102 @@ export default defineContentScript({
 
 		// Setup button event handlers for a gamepad
 		function setupButtonHandlers(gamepad: GamepadState) {
+			// buttons pressed while this gamepad was accepted, so that their
+			// release is delivered even if another controller became primary
+			const accepted = new Set<number>();
 			// Setup handlers for all possible buttons (0-16)
 			for (let i = 0; i <= 16; i++) {
 				const buttonIndex = i;
 				gamepad.before(`button${buttonIndex}`, () => {
-					if (!gamepadInputEnabled) return; // Ignore input when disabled (e.g., popup open)
-					try {
-						actionHandler.onButtonPress(buttonIndex);
-					} catch (error) {
-						showTempError(
-							error instanceof Error ? error : new Error(String(error)),
-						);
-					}
+					if (!registry.accept(gamepad.id)) return;
+					accepted.add(buttonIndex);
+					input.pressButton(buttonIndex);
 				});
 				gamepad.after(`button${buttonIndex}`, () => {
-					if (!gamepadInputEnabled) return; // Ignore input when disabled (e.g., popup open)
-					try {
-						actionHandler.onButtonRelease(buttonIndex);
-					} catch (error) {
-						showTempError(
-							error instanceof Error ? error : new Error(String(error)),
-						);
-					}
+					if (!accepted.delete(buttonIndex)) return;
+					input.releaseButton(buttonIndex);
 				});
 			}
 		}
 
-		// Setup joystick event handlers for a gamepad
-		function setupJoystickHandlers(gamepad: GamepadState) {
-			// Left joystick directional events - use .before() to fire only once per direction
-			// Using aliases "up", "down", "left", "right" (equivalent to "up0", "down0", "left0", "right0")
-			gamepad.before("up", () => {
-				if (!gamepadInputEnabled) return; // Ignore input when disabled (e.g., popup open)
-				try {
-					if (actionHandler.onDirection) {
-						actionHandler.onDirection(DIRECTION.UP);
-					}
-				} catch (error) {
-					showTempError(
-						error instanceof Error ? error : new Error(String(error)),
-					);
-				}
-			});
-			gamepad.before("down", () => {
-				if (!gamepadInputEnabled) return; // Ignore input when disabled (e.g., popup open)
-				try {
-					if (actionHandler.onDirection) {
-						actionHandler.onDirection(DIRECTION.DOWN);
-					}
-				} catch (error) {
-					showTempError(
-						error instanceof Error ? error : new Error(String(error)),
-					);
-				}
-			});
-			gamepad.before("left", () => {
-				if (!gamepadInputEnabled) return; // Ignore input when disabled (e.g., popup open)
-				try {
-					if (actionHandler.onDirection) {
-						actionHandler.onDirection(DIRECTION.LEFT);
-					}
-				} catch (error) {
-					showTempError(
-						error instanceof Error ? error : new Error(String(error)),
-					);
+		// Passes input of any device to the action handler unless disabled
+		function handleInput(callback: () => void) {
+			if (!gamepadInputEnabled) return; // Ignore input when disabled (e.g., popup open)
+			try {
+				callback();
+			} catch (error) {
+				showTempError(
+					error instanceof Error ? error : new Error(String(error)),
+				);
+			}
+		}
+
+		function useKeyboardInput() {
+			if (!keyboardInputUsed) {
+				keyboardInputUsed = true;
+				log("Keyboard or remote input detected");
+				startNavigation();
+				showConnectionHint();
+				showActionHints();
+			}
+		}
+
+		function updateKeyboardInput() {
+			if (settings.keyboardInput && !keyboardInputStarted) {
+				for (const source of keyboardSources) {
+					source.start();
 				}
-			});
-			gamepad.before("right", () => {
-				if (!gamepadInputEnabled) return; // Ignore input when disabled (e.g., popup open)
-				try {
-					if (actionHandler.onDirection) {
-						actionHandler.onDirection(DIRECTION.RIGHT);
-					}
-				} catch (error) {
-					showTempError(
-						error instanceof Error ? error : new Error(String(error)),
-					);
+				keyboardInputStarted = true;
+			} else if (!settings.keyboardInput && keyboardInputStarted) {
+				for (const source of keyboardSources) {
+					source.stop();
 				}
-			});
+				keyboardInputStarted = false;
+			}
 		}
 
-		gameControl.on("connect", (gamepad: GamepadState) => {
-			if (!hasConnectedGamepad) {
-				// first connection, run current page handler manually
+		// first input of the session, run current page handler manually
+		function startNavigation() {
+			if (!navigationStarted) {
 				observeProfilePopup();
 				runHandler(window.location.pathname);
-				hasConnectedGamepad = true;
+				navigationStarted = true;
+			}
+		}
+
+		// Left stick directions are read from the raw axes once per cycle so
+		// that each controller's calibration applies
+		gameControl.on("beforeCycle", () => {
+			if (!gamepadInputEnabled) return; // Ignore input when disabled (e.g., popup open)
+			try {
+				stickNavigator.update();
+			} catch (error) {
+				showTempError(
+					error instanceof Error ? error : new Error(String(error)),
+				);
 			}
+		});
+
+		gameControl.on("connect", (gamepad: GamepadState) => {
+			startNavigation();
 			connectionHintBar.remove();
-			numGamepads++;
+			// Hints use the saved or auto-detected icons of the primary controller
+			const controller = registry.connect(gamepad.id, gamepad.controllerId);
 			showActionHints();
 			updateCompatibility();
-
-			// Auto-detect controller type and temporarily override user preference
-			const detectedMapping = getControllerMapping(
-				gamepad.controllerId,
-				settings.buttonImageMapping,
+			log(
+				`Gamepad connected: ${gamepad.controllerId || "Unknown"} - Using ${controller.mapping} buttons`,
 			);
-			if (detectedMapping !== settings.buttonImageMapping) {
-				log(
-					`Gamepad connected: ${gamepad.controllerId || "Unknown"} - Auto-detected as ${detectedMapping}`,
-				);
-				settings.buttonImageMapping = detectedMapping;
-				actionHandler.updateHints();
-			} else {
-				log(`Gamepad connected: ${gamepad.controllerId || "Unknown"}`);
-			}
 
 			// Setup all event handlers for this gamepad
 			setupButtonHandlers(gamepad);
-			setupJoystickHandlers(gamepad);
 		});
 
 		gameControl.on("disconnect", (index: number) => {
-			numGamepads--;
-			if (numGamepads === 0) {
-				actionHandler.hideHints();
-			}
+			registry.disconnect(index);
+			actionHandler.releaseAll();
+			stickNavigator.reset();
+			showActionHints();
 			showConnectionHint();
 			updateCompatibility();
 			log(`Gamepad disconnected: ${index}`);
@@ -493,13 +704,64 @@ export default defineContentScript({
 			(
 				actionHandler as { onDirection: ((direction: number) => void) | null }
 			).onDirection = keyboard.onDirectionAction.bind(keyboard);
+			actionHandler.isDirectionLocked = null;
+		}
+
+		// switch between focus navigation and the virtual mouse cursor
+		function toggleCursor() {
+			if (virtualCursor.isActive()) {
+				closeCursor(true);
+			} else {
+				openCursor();
+			}
+		}
+
+		function openCursor() {
+			if (keyboard || !currentHandler) return;
+			cursorHandlerState = currentHandler.exit();
+			actionHandler.removeAll(currentHandler.getActions());
+			actionHandler.removeAction(searchAction);
+			actionHandler.removeAction(backAction);
+			virtualCursor.show();
+			cursorAction.label = "Exit Cursor";
+			actionHandler.addAll([...virtualCursor.getActions(), cursorAction]);
+			actionHandler.onDirection =
+				virtualCursor.onDirectionAction.bind(virtualCursor);
+			actionHandler.isDirectionLocked = null;
+		}
+
+		function closeCursor(restore: boolean) {
+			virtualCursor.hide();
+			actionHandler.removeAll(virtualCursor.getActions());
+			cursorAction.label = "Cursor";
+			if (restore && currentHandler) {
+				actionHandler.addAll(currentHandler.getActions());
+				currentHandler.enter(cursorHandlerState ?? {});
+			}
+			cursorHandlerState = null;
+			setPageActions();
 		}
 
 		function goBack() {
-			if (handlerHistory.length > 0) {
+			if (handlerHistory.length >= 2) {
 				unload();
 				handlerHistory.pop();
 				window.history.back();
+			} else {
+				// going back would leave Netflix, e.g. after opening an account page directly
+				goHome();
+			}
+		}
+
+		function goHome() {
+			if (window.location.pathname === "/browse") return;
+			unload();
+			// the logo link navigates within the app instead of reloading it
+			const logo = document.querySelector("a.logo") as HTMLElement | null;
+			if (logo) {
+				logo.click();
+			} else {
+				window.location.assign("/browse");
 			}
 		}
 
@@ -561,5 +823,17 @@ export default defineContentScript({
 			getTransparentNetflixRed;
 		(window as unknown as Record<string, unknown>).isKeyboardActive = () =>
 			keyboard !== null;
+		(window as unknown as Record<string, unknown>).isGamepadInputEnabled = () =>
+			gamepadInputEnabled;
+		(window as unknown as Record<string, unknown>).isCursorActive = () =>
+			virtualCursor.isActive();
+		(window as unknown as Record<string, unknown>).rumble = rumble;
+		(window as unknown as Record<string, unknown>).getActiveGamepad =
+			getActiveGamepad;
+		if (import.meta.env.DEV) {
+			// inputRecorder.start(), .export() and .replay(capture) from the
+			// content script console reproduce navigation bugs
+			(window as unknown as Record<string, unknown>).inputRecorder = recorder;
+		}
 	},
 });
@@ -0,0 +1,278 @@
+import type { PublicPath } from "wxt/browser";
+import {
+	BRIDGE_HANDSHAKE_TYPE,
+	BRIDGE_KEY_ATTRIBUTE,
+	BRIDGE_PROTOCOL_VERSION,
+	type BridgeArgs,
+	type BridgeCommand,
+	type BridgeError,
+	type BridgeErrorCode,
+	type BridgeEventMessage,
+	type BridgeEventName,
+	type BridgeEvents,
+	type BridgeHandshake,
+	type BridgeHandshakeReply,
+	type BridgeRequest,
+	type BridgeResponse,
+	type BridgeResult,
+} from "../../types/bridge";
+import { BridgeChannel, getBridgeKey } from "../../utils/bridge-channel.ts";
+
+const CALL_TIMEOUT = 5000;
+// time for the main world script to load and answer the handshake
+const HANDSHAKE_TIMEOUT = 10000;
+
+export class BridgeCallError extends Error {
+	code: BridgeErrorCode;
+
+	constructor(error: BridgeError) {
+		super(error.message);
+		this.name = "BridgeCallError";
+		this.code = error.code;
+	}
+}
+
+type EventListener = (data: unknown) => void;
+
+interface PendingCall {
+	resolve: (result: unknown) => void;
+	reject: (error: BridgeCallError) => void;
+	timeoutId: number;
+}
+
+/**
+ * Content script end of the main world bridge. The main world script is
+ * injected with the digest of a per-session secret as its key, and only a
+ * handshake carrying that secret connects it, so page scripts cannot take the
+ * bridge over. Replies that do not echo the secret are ignored. The channel
+ * itself is not hidden from page scripts that watched the injection. Player
+ * events are only published for the events that have listeners.
+ */
+export class NetflixBridge {
+	secret: string;
+	channel: BridgeChannel | null;
+	// rejects if the main world script fails to load or refuses the handshake
+	ready: Promise<void>;
+	resolveReady: () => void;
+	rejectReady: (error: BridgeError) => void;
+	handshakeTimeoutId: number | null;
+	pending: Map<number, PendingCall>;
+	nextId: number;
+	listeners: Map<BridgeEventName, Set<EventListener>>;
+
+	constructor() {
+		this.secret = crypto.randomUUID();
+		this.channel = null;
+		this.handshakeTimeoutId = null;
+		this.pending = new Map();
+		this.nextId = 1;
+		this.listeners = new Map();
+		this.resolveReady = () => {};
+		this.rejectReady = () => {};
+		this.ready = new Promise((resolve, reject) => {
+			this.resolveReady = () => {
+				this.clearHandshakeTimeout();
+				resolve();
+			};
+			this.rejectReady = (error: BridgeError) => {
+				this.clearHandshakeTimeout();
+				reject(new BridgeCallError(error));
+			};
+		});
+		// calls report the failure themselves
+		this.ready.catch(() => {});
+	}
+
+	/**
+	 * Injects the main world script with the session key on its element and
+	 * connects once it has run.
+	 */
+	async inject(path: PublicPath): Promise<void> {
+		if (this.channel) return;
+		let key: string;
+		try {
+			key = await getBridgeKey(this.secret);
+		} catch (error) {
+			this.rejectReady({ code: "NO_PLAYER", message: String(error) });
+			return;
+		}
+		if (this.channel) return;
+		this.channel = new BridgeChannel(key, "content");
+		this.channel.onmessage = (data: unknown) =>
+			this.onMessage(
+				data as BridgeHandshakeReply | BridgeEventMessage | BridgeResponse,
+			);
+		this.handshakeTimeoutId = window.setTimeout(
+			() =>
+				this.rejectReady({
+					code: "TIMEOUT",
+					message: `No handshake reply after ${HANDSHAKE_TIMEOUT}ms`,
+				}),
+			HANDSHAKE_TIMEOUT,
+		);
+
+		const script = document.createElement("script");
+		script.src = browser.runtime.getURL(path);
+		script.setAttribute(BRIDGE_KEY_ATTRIBUTE, key);
+		script.onload = () => {
+			script.remove();
+			this.connect();
+		};
+		script.onerror = () => {
+			script.remove();
+			this.rejectReady({
+				code: "NO_PLAYER",
+				message: `Failed to load ${path}`,
+			});
+		};
+		(document.head ?? document.documentElement).append(script);
+	}
+
+	connect(): void {
+		this.channel?.postMessage({
+			type: BRIDGE_HANDSHAKE_TYPE,
+			version: BRIDGE_PROTOCOL_VERSION,
+			secret: this.secret,
+		} satisfies BridgeHandshake);
+	}
+
+	clearHandshakeTimeout(): void {
+		if (this.handshakeTimeoutId !== null) {
+			window.clearTimeout(this.handshakeTimeoutId);
+			this.handshakeTimeoutId = null;
+		}
+	}
+
+	call<C extends BridgeCommand>(
+		command: C,
+		...args: BridgeArgs<C>
+	): Promise<BridgeResult<C>> {
+		return new Promise((resolve, reject) => {
+			const id = this.nextId++;
+			const timeoutId = window.setTimeout(() => {
+				this.pending.delete(id);
+				reject(
+					new BridgeCallError({
+						code: "TIMEOUT",
+						message: `${command} timed out after ${CALL_TIMEOUT}ms`,
+					}),
+				);
+			}, CALL_TIMEOUT);
+			this.pending.set(id, {
+				resolve: resolve as (result: unknown) => void,
+				reject,
+				timeoutId,
+			});
+
+			this.ready.then(
+				() => {
+					this.channel?.postMessage({
+						version: BRIDGE_PROTOCOL_VERSION,
+						secret: this.secret,
+						id,
+						command,
+						args,
+					} satisfies BridgeRequest<C>);
+				},
+				(error: BridgeCallError) => {
+					this.settle(id, {
+						id,
+						secret: this.secret,
+						ok: false,
+						error: { code: error.code, message: error.message },
+					});
+				},
+			);
+		});
+	}
+
+	// returns a function that removes the listener again
+	on<E extends BridgeEventName>(
+		event: E,
+		listener: (data: BridgeEvents[E]) => void,
+	): () => void {
+		let listeners = this.listeners.get(event);
+		if (!listeners) {
+			listeners = new Set();
+			this.listeners.set(event, listeners);
+			this.call("subscribe", event).catch((error) => {
+				console.warn(`[BRIDGE] Could not subscribe to ${event}:`, error);
+			});
+		}
+		const added = listener as EventListener;
+		listeners.add(added);
+		return () => {
+			listeners.delete(added);
+			if (listeners.size === 0 && this.listeners.get(event) === listeners) {
+				this.listeners.delete(event);
+				this.call("unsubscribe", event).catch(() => {});
+			}
+		};
+	}
+
+	// resolves with the first of the given events to occur, or null on timeout
+	once<E extends BridgeEventName>(
+		events: E[],
+		timeout: number,
+	): Promise<E | null> {
+		return new Promise((resolve) => {
+			const removers = events.map((event) =>
+				this.on(event, () => finish(event)),
+			);
+			const timeoutId = window.setTimeout(() => finish(null), timeout);
+			const finish = (event: E | null) => {
+				window.clearTimeout(timeoutId);
+				for (const remove of removers) {
+					remove();
+				}
+				resolve(event);
+			};
+		});
+	}
+
+	onMessage(
+		data: BridgeHandshakeReply | BridgeEventMessage | BridgeResponse,
+	): void {
+		if ("type" in data && data.type === "event") {
+			if (data.secret === this.secret) {
+				for (const listener of this.listeners.get(data.event) ?? []) {
+					listener(data.data);
+				}
+			}
+			return;
+		}
+		if ("type" in data) {
+			if (data.secret !== this.secret) {
+				console.warn("[BRIDGE] Ignoring reply to another handshake");
+			} else if (data.type === "rejected") {
+				console.warn(
+					"[BRIDGE] Main world rejected the connection:",
+					data.error,
+				);
+				this.rejectReady(data.error);
+			} else {
+				this.resolveReady();
+			}
+			return;
+		}
+		if (data.secret !== this.secret) {
+			console.warn("[BRIDGE] Ignoring response without the session secret");
+			return;
+		}
+		this.settle(data.id, data);
+	}
+
+	settle(id: number, response: BridgeResponse): void {
+		const call = this.pending.get(id);
+		if (!call) return;
+		this.pending.delete(id);
+		window.clearTimeout(call.timeoutId);
+		if (response.ok) {
+			call.resolve(response.result);
+		} else {
+			call.reject(new BridgeCallError(response.error));
+		}
+	}
+}
+
+export const netflixBridge = new NetflixBridge();
@@ -1,11 +1,13 @@
+import type { PageRoute } from "../../../types/handlers";
 import { Profiles } from "../components/profiles.js";
 import { NavigatablePage } from "./page.ts";
 
 export class ChooseProfile extends NavigatablePage {
-	static validatePath(_path: string): boolean {
-		// can occur at any path; check for element
-		return document.querySelector(".list-profiles") !== null;
-	}
+	// can occur at any path; check for element
+	static route: PageRoute = {
+		matches: () => document.querySelector(".list-profiles") !== null,
+		priority: 10,
+	};
 
 	hasPath(): boolean {
 		return false;
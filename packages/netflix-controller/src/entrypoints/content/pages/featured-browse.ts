@@ -1,3 +1,4 @@
+import type { PageRoute } from "../../../types/handlers";
 import { Billboard } from "../components/billboard.js";
 import { Slider } from "../components/slider.js";
 import { SliderBrowse } from "./slider-browse.js";
@@ -14,7 +15,7 @@ export class FeaturedBrowse extends SliderBrowse {
 		this.setNavigatable(1);
 	}
 
-	static validatePath(path: string): boolean {
-		return path === "/browse" || path.startsWith("/browse/genre");
-	}
+	static route: PageRoute = {
+		paths: ["/browse", "/browse/genre/**"],
+	};
 }
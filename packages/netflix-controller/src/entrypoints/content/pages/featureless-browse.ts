@@ -1,3 +1,4 @@
+import type { PageRoute } from "../../../types/handlers";
 import { PureSliderBrowse } from "./pure-slider-browse.ts";
 
 export class FeaturelessBrowse extends PureSliderBrowse {
@@ -5,7 +6,7 @@ export class FeaturelessBrowse extends PureSliderBrowse {
 		super(0);
 	}
 
-	static validatePath(path: string): boolean {
-		return path === "/browse/new-release" || path === "/browse/my-list";
-	}
+	static route: PageRoute = {
+		paths: ["/browse/new-release", "/browse/my-list"],
+	};
 }
@@ -0,0 +1,25 @@
+import type { PageRoute } from "../../../types/handlers";
+import { FocusableElements } from "../components/focusable-elements.ts";
+import { NavigatablePage } from "./page.ts";
+
+/**
+ * Basic support for pages without a handler of their own, such as account,
+ * help and error pages: any link, button or field can be selected.
+ */
+export class GenericPage extends NavigatablePage {
+	// checked last, after every other page handler
+	static route: PageRoute = {
+		matches: () => true,
+		priority: -100,
+	};
+
+	onLoad(): void {
+		this.addNavigatable(0, new FocusableElements());
+		this.setNavigatable(0);
+	}
+
+	// there may be no other way back from these pages
+	needsBackAction(): boolean {
+		return true;
+	}
+}
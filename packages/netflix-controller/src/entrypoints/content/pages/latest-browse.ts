@@ -1,3 +1,4 @@
+import type { PageRoute } from "../../../types/handlers";
 import { PureSliderBrowse } from "./pure-slider-browse.ts";
 
 export class LatestBrowse extends PureSliderBrowse {
@@ -5,7 +6,7 @@ export class LatestBrowse extends PureSliderBrowse {
 		super(1);
 	}
 
-	static validatePath(path: string): boolean {
-		return path === "/latest";
-	}
+	static route: PageRoute = {
+		paths: ["/latest"],
+	};
 }
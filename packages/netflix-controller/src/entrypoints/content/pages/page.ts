@@ -6,6 +6,7 @@ import type {
 import { PseudoStyler } from "../../../utils/pseudostyler.ts";
 import { DIRECTION } from "../components/direction.ts";
 import type { Navigatable } from "../components/navigatable.ts";
+import { PreviewModal } from "../components/preview-modal.ts";
 
 export class NavigatablePage {
 	navigatables: (Navigatable | null)[];
@@ -13,6 +14,12 @@ export class NavigatablePage {
 	unloaded: boolean;
 	position: number;
 	styler: PseudoStyler | null;
+	// readiness condition of the route the page was loaded for
+	routeReady: (() => boolean) | null;
+	// takes over navigation while open, see hasPreviewModal
+	previewModal: PreviewModal | null;
+	previewModalObserver: MutationObserver | null;
+	previewModalState: ExitResult;
 
 	constructor() {
 		if (new.target === NavigatablePage) {
@@ -23,6 +30,10 @@ export class NavigatablePage {
 		this.unloaded = false;
 		this.position = 0;
 		this.styler = null;
+		this.routeReady = null;
+		this.previewModal = null;
+		this.previewModalObserver = null;
+		this.previewModalState = {};
 	}
 
 	async load(): Promise<void> {
@@ -32,6 +43,9 @@ export class NavigatablePage {
 			window.actionHandler.addAll(this.getActions());
 			window.actionHandler.onInput = () => this.onInput();
 			this.loaded = true;
+			if (this.hasPreviewModal()) {
+				this.observePreviewModal();
+			}
 		}
 	}
 
@@ -51,7 +65,10 @@ export class NavigatablePage {
 		const _this = this;
 		return new Promise<void>((resolve) => {
 			(function checkReadiness() {
-				if (_this.unloaded || _this.isPageReady()) {
+				if (
+					_this.unloaded ||
+					(_this.isPageReady() && (_this.routeReady?.() ?? true))
+				) {
 					return resolve();
 				}
 				setTimeout(checkReadiness, 50);
@@ -68,6 +85,13 @@ export class NavigatablePage {
 
 	// to be overriden by subclasses
 	onUnload(): void {
+		this.previewModalObserver?.disconnect();
+		this.previewModalObserver = null;
+		if (this.previewModal) {
+			this.exit();
+			this.previewModal.cleanup();
+			this.previewModal = null;
+		}
 		this.navigatables.forEach((navigatable) => {
 			// Call exit to handle component state cleanup
 			navigatable?.exit();
@@ -96,6 +120,55 @@ export class NavigatablePage {
 		return false;
 	}
 
+	// to be overriden by subclasses that offer Back even without history
+	needsBackAction(): boolean {
+		return false;
+	}
+
+	// to be overriden by subclasses whose titles open in a preview modal
+	hasPreviewModal(): boolean {
+		return false;
+	}
+
+	observePreviewModal(): void {
+		this.previewModalObserver = new MutationObserver(() =>
+			this.checkPreviewModal(),
+		);
+		this.previewModalObserver.observe(document.body, {
+			childList: true,
+			subtree: true,
+		});
+		this.checkPreviewModal();
+	}
+
+	/**
+	 * Moves navigation into a preview modal once it opens and back to the
+	 * page once it closes, or into the next modal if it was replaced.
+	 */
+	checkPreviewModal(): void {
+		if (this.previewModal?.isOpen()) {
+			return;
+		}
+		const modal = PreviewModal.getPreviewModal();
+		if (!modal && !this.previewModal) {
+			return;
+		}
+		// the virtual cursor enters the page again once it is closed
+		const active = !window.isCursorActive?.();
+		const params = active ? this.exit() : {};
+		if (!this.previewModal) {
+			this.previewModalState = params;
+		}
+		this.previewModal?.cleanup();
+		this.previewModal = modal;
+		if (modal) {
+			modal.styler = this.styler;
+		}
+		if (active) {
+			this.enter(modal ? {} : this.previewModalState);
+		}
+	}
+
 	hasPath(): boolean {
 		return true;
 	}
@@ -108,12 +181,19 @@ export class NavigatablePage {
 		return [];
 	}
 
-	// static validatePath(path) must be implemented by subclasses
+	// static route: PageRoute must be declared by subclasses, see RouteRegistry
 
 	isNavigatable(position: number): boolean {
 		return position < this.navigatables.length;
 	}
 
+	isNavigationLocked(): boolean {
+		if (this.previewModal) {
+			return false;
+		}
+		return this.navigatables[this.position]?.isLocked() ?? false;
+	}
+
 	setNavigatable(position: number): void {
 		if (!this.isNavigatable(position)) {
 			throw new Error(`no navigatable at position ${position}`);
@@ -149,6 +229,10 @@ export class NavigatablePage {
 	}
 
 	exit(): ExitResult {
+		if (this.previewModal) {
+			window.actionHandler.removeAll(this.previewModal.getActions());
+			return this.previewModal.exit();
+		}
 		if (this.navigatables[this.position]) {
 			const exitParams = this.navigatables[this.position]?.exit();
 			window.actionHandler.removeAll(
@@ -162,6 +246,11 @@ export class NavigatablePage {
 	}
 
 	enter(params: EnterParams): void {
+		if (this.previewModal) {
+			this.previewModal.enter(params);
+			window.actionHandler.addAll(this.previewModal.getActions());
+			return;
+		}
 		if (this.navigatables[this.position]) {
 			this.navigatables[this.position]?.enter(params);
 			window.actionHandler.addAll(
@@ -170,27 +259,39 @@ export class NavigatablePage {
 		}
 	}
 
+	/**
+	 * Moves within the current navigatable, or to the one above or below it
+	 * when the navigatable cannot move any further in that direction.
+	 */
 	onDirectionAction(direction: number): void {
-		if (direction === DIRECTION.UP) {
-			// If there's a navigatable and it handles up navigation internally
-			if (this.navigatables[this.position]) {
-				this.navigatables[this.position]?.up();
-			} else if (this.position > 0) {
-				// Fall back to previous navigatable if current one doesn't handle up
-				this.setNavigatable(this.position - 1);
+		if (this.previewModal) {
+			if (!this.previewModal.navigate(direction)) {
+				window.rumble?.("edge");
 			}
+			return;
+		}
+		if (this.navigatables[this.position]?.navigate(direction)) {
+			return;
+		}
+		let position = -1;
+		if (direction === DIRECTION.UP) {
+			position = this.position - 1;
 		} else if (direction === DIRECTION.DOWN) {
-			// If there's a navigatable and it handles down navigation internally
-			if (this.navigatables[this.position]) {
-				this.navigatables[this.position]?.down();
-			} else {
-				// Fall back to next navigatable if current one doesn't handle down
-				this.setNavigatable(this.position + 1);
-			}
-		} else if (direction === DIRECTION.LEFT) {
-			this.navigatables[this.position]?.left();
-		} else if (direction === DIRECTION.RIGHT) {
-			this.navigatables[this.position]?.right();
+			position = this.position + 1;
 		}
+		if (position < 0 || !this.canSetNavigatable(position)) {
+			window.rumble?.("edge");
+			return;
+		}
+		const current = this.navigatables[this.position];
+		this.setNavigatable(position);
+		if (this.navigatables[this.position] === current) {
+			window.rumble?.("edge"); // nothing found to move to
+		}
+	}
+
+	// can be overriden by pages that find navigatables when moving to them
+	canSetNavigatable(position: number): boolean {
+		return this.isNavigatable(position);
 	}
 }
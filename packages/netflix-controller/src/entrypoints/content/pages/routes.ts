@@ -0,0 +1,127 @@
+import type {
+	PageRoute,
+	RouteCheck,
+	RouteDecision,
+} from "../../../types/handlers";
+import type { NavigatablePage } from "./page.ts";
+
+export type PageHandlerClass = (new () => NavigatablePage) & {
+	route: PageRoute;
+};
+
+interface RegisteredRoute {
+	handler: PageHandlerClass;
+	route: PageRoute;
+	patterns: RegExp[];
+	order: number;
+}
+
+export function globToRegExp(glob: string): RegExp {
+	const source = glob
+		.split(/(\/\*\*|\*\*|\*)/)
+		.map((part) => {
+			if (part === "/**") return "(?:/.*)?";
+			if (part === "**") return ".*";
+			if (part === "*") return "[^/]*";
+			return part.replace(/[.+?^${}()|[\]\\]/g, "\\$&");
+		})
+		.join("");
+	return new RegExp(`^${source}/?$`);
+}
+
+/**
+ * Page handlers by the routes they declare. The highest priority route that
+ * matches a path picks its handler, so new pages only need to be registered.
+ * Handlers registered at runtime apply from the next page change.
+ */
+export class RouteRegistry {
+	routes: RegisteredRoute[];
+	lastDecision: RouteDecision | null;
+	nextOrder: number;
+
+	constructor() {
+		this.routes = [];
+		this.lastDecision = null;
+		this.nextOrder = 0;
+	}
+
+	// registers the handler under its declared route or the given one
+	register(
+		handler: PageHandlerClass,
+		route: PageRoute = handler.route,
+	): () => void {
+		const registered: RegisteredRoute = {
+			handler,
+			route,
+			patterns: (route.paths ?? []).map(globToRegExp),
+			order: this.nextOrder++,
+		};
+		this.routes.push(registered);
+		this.routes.sort(
+			(a, b) =>
+				(b.route.priority ?? 0) - (a.route.priority ?? 0) || a.order - b.order,
+		);
+		return () => {
+			this.routes = this.routes.filter((r) => r !== registered);
+		};
+	}
+
+	unregister(handler: PageHandlerClass): void {
+		this.routes = this.routes.filter((r) => r.handler !== handler);
+	}
+
+	/**
+	 * Returns the route for the path and records the decision, with the
+	 * outcome of every route up to the one that matched.
+	 */
+	match(path: string): RegisteredRoute | null {
+		const checks: RouteCheck[] = [];
+		let match: RegisteredRoute | null = null;
+		for (const registered of this.routes) {
+			const check = this.check(registered, path);
+			checks.push(check);
+			if (check.matched) {
+				match = registered;
+				break;
+			}
+		}
+		this.lastDecision = {
+			path,
+			handler: match?.handler.name ?? null,
+			checks,
+		};
+		return match;
+	}
+
+	check(registered: RegisteredRoute, path: string): RouteCheck {
+		const { handler, route, patterns } = registered;
+		const check: RouteCheck = {
+			handler: handler.name,
+			priority: route.priority ?? 0,
+			matched: false,
+			reason: "",
+		};
+		if (patterns.length === 0 && !route.matches) {
+			check.reason = "route declares no paths or document check";
+			return check;
+		}
+		if (patterns.length > 0) {
+			const index = patterns.findIndex((pattern) => pattern.test(path));
+			if (index < 0) {
+				check.reason = "no path matched";
+				return check;
+			}
+			check.reason = `path matched ${route.paths?.[index]}`;
+		}
+		if (route.matches && !route.matches()) {
+			check.reason = "document did not match";
+			return check;
+		}
+		check.matched = true;
+		check.reason ||= "document matched";
+		return check;
+	}
+}
+
+// routes of the page handlers; see index.ts for the built-in ones
+export const pageRoutes = new RouteRegistry();
@@ -1,3 +1,4 @@
+import type { PageRoute } from "../../../types/handlers";
 import { SearchGallery } from "../components/search-gallery.ts";
 import { NavigatablePage } from "./page.ts";
 
@@ -22,9 +23,9 @@ export class SearchBrowse extends NavigatablePage {
 		this.observeSearchResults();
 	}
 
-	static validatePath(path: string): boolean {
-		return path.startsWith("/search");
-	}
+	static route: PageRoute = {
+		paths: ["/search/**"],
+	};
 
 	onLoad(): void {
 		this.addNavigatable(0, new SearchGallery());
@@ -53,6 +54,10 @@ export class SearchBrowse extends NavigatablePage {
 		return true;
 	}
 
+	hasPreviewModal(): boolean {
+		return true;
+	}
+
 	setNavigatable(position: number): void {
 		if (position === 0) {
 			super.setNavigatable(position);
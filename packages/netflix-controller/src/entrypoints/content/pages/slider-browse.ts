@@ -1,10 +1,15 @@
 import { Billboard } from "../components/billboard.js";
+import { DIRECTION } from "../components/direction.ts";
 import { Jawbone } from "../components/jawbone.js";
 import { Menu } from "../components/menu.js";
 import type { Navigatable } from "../components/navigatable";
 import { Slider } from "../components/slider.js";
+import { findNearest } from "../components/spatial-navigation.ts";
 import { NavigatablePage } from "./page.ts";
 
+// ids of the rows of titles, e.g. row-3
+const ROW_ID = /^row-(\d+)$/;
+
 export class SliderBrowse extends NavigatablePage {
 	loadingRow: number;
 	currentRow: number;
@@ -55,13 +60,29 @@ export class SliderBrowse extends NavigatablePage {
 		}
 	}
 
+	// rows and jawbones below are only found once the page moves to them
+	canSetNavigatable(_position: number): boolean {
+		return true;
+	}
+
+	/**
+	 * Returns a navigatable for the nearest row below the current one on screen,
+	 * which skips row ids that are missing or out of order.
+	 */
 	getNextNavigatable(): Navigatable | null {
 		const currentNav = this.navigatables[this.position];
 		if (currentNav && "row" in currentNav) {
 			const slider = currentNav as Slider;
-			const nextRow = slider.row + 1;
-			const rowNode = document.getElementById(`row-${nextRow}`);
+			const currentNode = document.getElementById(`row-${slider.row}`);
+			if (!currentNode) {
+				return null;
+			}
+			const rows = Array.from(
+				document.querySelectorAll('.mainView [id^="row-"]'),
+			).filter((node) => ROW_ID.test(node.id));
+			const rowNode = findNearest(currentNode, rows, DIRECTION.DOWN);
 			if (rowNode) {
+				const nextRow = Number(ROW_ID.exec(rowNode.id)?.[1]);
 				if (rowNode.querySelector(".slider")) {
 					return new Slider(nextRow, rowNode);
 				} else if (rowNode.querySelector(".billboard-title")) {
@@ -95,4 +116,8 @@ export class SliderBrowse extends NavigatablePage {
 	hasSearchBar(): boolean {
 		return true;
 	}
+
+	hasPreviewModal(): boolean {
+		return true;
+	}
 }
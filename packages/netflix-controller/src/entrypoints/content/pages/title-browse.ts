@@ -1,3 +1,4 @@
+import type { PageRoute } from "../../../types/handlers";
 import { Jawbone } from "../components/jawbone.ts";
 import { Slider } from "../components/slider.ts";
 import { SliderBrowse } from "./slider-browse.ts";
@@ -14,12 +15,9 @@ export class TitleBrowse extends SliderBrowse {
 		this.setNavigatable(1);
 	}
 
-	static validatePath(path: string): boolean {
-		return path.startsWith("/title/");
-	}
-
-	// jawbone content loads after the rest of the page
-	isPageReady(): boolean {
-		return super.isPageReady() && !!document.querySelector(".jawbone-actions");
-	}
+	static route: PageRoute = {
+		paths: ["/title/*"],
+		// jawbone content loads after the rest of the page
+		isReady: () => !!document.querySelector(".jawbone-actions"),
+	};
 }
@@ -1,14 +1,82 @@
 import { GAMEPAD_BUTTONS } from "@ribajs/gamecontroller.js";
+import type {
+	BridgeArgs,
+	BridgeCommand,
+	BridgeResult,
+} from "../../../types/bridge";
 import type { NavigationAction } from "../../../types/components";
-import type { Settings } from "../../../types/settings";
+import type { PageRoute } from "../../../types/handlers";
+import type { Settings, SkipMode } from "../../../types/settings";
+import { getBoundButton } from "../../../utils/action-bindings.ts";
+import { formatTime } from "../../../utils/format-time.ts";
 import * as S from "../../../utils/storage-items";
+import type { TrackInfo } from "../../netflix-api/player-controls";
+import { InteractiveChoices } from "../components/choices.ts";
+import { BridgeCallError, netflixBridge } from "../netflix-bridge.ts";
 import { ActionHandler } from "../ui/actions.js";
+import { OverlayMenu } from "../ui/overlay-menu.ts";
+import { PlayerIndicator } from "../ui/player-indicator.ts";
+import { PlayerOsd, type PlayerOsdState } from "../ui/player-osd.ts";
+import { type ScrubPosition, TimelineScrubber } from "../ui/scrubber.ts";
+import { SLEEP_TIMER_MINUTES, SleepTimer } from "../ui/sleep-timer.ts";
 import { NavigatablePage } from "./page.ts";
 
+// minimum time between playback checks driven by time updates
+const PLAYBACK_CHECK_INTERVAL = 1000;
+// how long to wait for the player to confirm a play/pause toggle
+const TOGGLE_CONFIRM_TIMEOUT = 1000;
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+
+type SkipSegmentType = "intro" | "recap" | "credits";
+
+interface SkipSegment {
+	type: SkipSegmentType;
+	start: number;
+	end: number;
+}
+
+const SKIP_LABELS: Record<SkipSegmentType, string> = {
+	intro: "Skip Intro",
+	recap: "Skip Recap",
+	credits: "Skip Credits",
+};
+
+// stored subtitle language for profiles that turned subtitles off
+const SUBTITLES_OFF = "off";
+
+// choice screens shown by interactive titles such as Bandersnatch
+const CHOICES_SELECTOR = ".BranchingInteractiveScene--choice-selection";
+
+// Netflix's own skip buttons, used when the API cannot seek
+const SKIP_BUTTON_SELECTOR =
+	'[data-uia="player-skip-intro"], [data-uia="player-skip-recap"]';
+
 export class WatchVideo extends NavigatablePage {
 	player: Element | null;
 	actionHandler: ActionHandler;
 	settings: Settings;
+	activeSkipSegment: SkipSegment | null;
+	// Start skips the active segment and otherwise opens the sleep timer
+	startAction: NavigationAction;
+	skippedSegments: Set<string>;
+	episodeActions: NavigationAction[] | null;
+	lastPlaybackCheck: number;
+	playerState: PlayerOsdState | null;
+	removeEventListeners: (() => void)[];
+	// aborted on unload to stop following setting changes
+	settingsWatcher: AbortController | null;
+	overlay: OverlayMenu | null;
+	subtitlesRestored: boolean;
+	scrubber: TimelineScrubber | null;
+	pausedForScrub: boolean;
+	indicator: PlayerIndicator | null;
+	osd: PlayerOsd | null;
+	// true while the speed modifier is held, turning volume into speed
+	speedModifierHeld: boolean;
+	sleepTimer: SleepTimer;
+	sleepRemaining: number | null;
+	choices: InteractiveChoices | null;
+	choicesObserver: MutationObserver | null;
 
 	constructor() {
 		super();
@@ -18,7 +86,69 @@ export class WatchVideo extends NavigatablePage {
 			buttonImageMapping: "Xbox Series",
 			showConnectionHint: false,
 			showCompatibilityWarning: false,
+			skipIntro: "Show button",
+			skipRecap: "Show button",
+			skipCredits: "Off",
+			buttonBindings: {},
+			directionRepeat: true,
+			repeatDelay: 400,
+			repeatRate: 8,
+			repeatAcceleration: true,
+			stickDeadZone: 0.15,
+			stickThreshold: 0.5,
+			stickCalibrations: {},
+			keyboardInput: false,
+			keyMap: {},
+			primaryController: "First active",
+			pinnedController: "",
+			controllerSettings: {},
+			hapticIntensity: 0,
+		};
+		this.activeSkipSegment = null;
+		this.skippedSegments = new Set();
+		this.episodeActions = null;
+		this.lastPlaybackCheck = 0;
+		this.playerState = null;
+		this.removeEventListeners = [];
+		this.settingsWatcher = null;
+		this.overlay = null;
+		this.subtitlesRestored = false;
+		this.scrubber = null;
+		this.pausedForScrub = false;
+		this.indicator = null;
+		this.osd = null;
+		this.speedModifierHeld = false;
+		this.startAction = {
+			label: "Sleep Timer",
+			index: GAMEPAD_BUTTONS.BUTTON_CONTROL_RIGHT,
+			id: "skipOrSleep",
+			onPress: () =>
+				this.activeSkipSegment
+					? this.skipActiveSegment()
+					: this.openSleepTimerMenu(),
 		};
+		this.sleepRemaining = null;
+		this.choices = null;
+		this.choicesObserver = null;
+		this.sleepTimer = new SleepTimer({
+			getEpisodeId: () =>
+				window.location.pathname.match(/^\/watch\/(\d+)/)?.[1] ?? null,
+			getEpisodeRemaining: () => this.getEpisodeRemaining(),
+			getVolume: async () => {
+				const info = await this.queryNetflix("getSessionInfo");
+				return info?.volume ?? null;
+			},
+			volumeDown: async (delta) => {
+				await this.queryNetflix("volumeDown", delta);
+			},
+			volumeUp: async (delta) => {
+				await this.queryNetflix("volumeUp", delta);
+			},
+			pause: async () => {
+				await this.queryNetflix("setPaused", true);
+				this.updateOsd(true);
+			},
+		});
 		this.actionHandler = new ActionHandler(this.settings);
 
 		// Load settings from storage
@@ -29,13 +159,25 @@ export class WatchVideo extends NavigatablePage {
 
 	private async loadSettingsFromStorage(): Promise<void> {
 		try {
-			const [showActionHints, buttonImageMapping] = await Promise.all([
+			const [
+				showActionHints,
+				buttonImageMapping,
+				skipIntro,
+				skipRecap,
+				skipCredits,
+			] = await Promise.all([
 				S.showActionHints.get(),
 				S.buttonImageMapping.get(),
+				S.skipIntro.get(),
+				S.skipRecap.get(),
+				S.skipCredits.get(),
 			]);
 
 			this.settings.showActionHints = showActionHints ?? true;
 			this.settings.buttonImageMapping = buttonImageMapping ?? "Xbox Series";
+			this.settings.skipIntro = skipIntro ?? "Show button";
+			this.settings.skipRecap = skipRecap ?? "Show button";
+			this.settings.skipCredits = skipCredits ?? "Off";
 
 			// Update action handler with loaded settings
 			this.actionHandler = new ActionHandler(this.settings);
@@ -47,9 +189,9 @@ export class WatchVideo extends NavigatablePage {
 		}
 	}
 
-	static validatePath(path: string): boolean {
-		return path.startsWith("/watch");
-	}
+	static route: PageRoute = {
+		paths: ["/watch/**"],
+	};
 
 	onLoad(): void {
 		console.log("[WATCH] Netflix watch page loaded");
@@ -59,9 +201,68 @@ export class WatchVideo extends NavigatablePage {
 		this.player = document.querySelector('[data-uia="player"]') || null;
 
 		console.log("[WATCH] Player element found:", !!this.player);
+
+		this.scrubber = new TimelineScrubber(this.player ?? document.body, {
+			canScrub: () =>
+				!this.overlay &&
+				!this.choices &&
+				!window.isCursorActive?.() &&
+				(window.isGamepadInputEnabled?.() ?? true),
+			getScrubButtons: () => {
+				const bindings = window.actionHandler.storage.buttonBindings;
+				return {
+					back: getBoundButton("scrubBack", bindings),
+					forward: getBoundButton("scrubForward", bindings),
+				};
+			},
+			onScrubStart: () => this.onScrubStart(),
+			onScrubCommit: (timeMs) => this.onScrubCommit(timeMs),
+		});
+		this.scrubber.start();
+		this.indicator = new PlayerIndicator(this.player ?? document.body);
+		this.osd = new PlayerOsd(this.player ?? document.body);
+
+		this.choicesObserver = new MutationObserver(() => this.checkChoices());
+		this.choicesObserver.observe(this.player ?? document.body, {
+			childList: true,
+			subtree: true,
+		});
+		this.checkChoices();
+
+		this.removeEventListeners = [
+			netflixBridge.on("timeupdate", (data) => this.onTimeUpdate(data)),
+			netflixBridge.on("play", () =>
+				this.updatePlayerState({ isPaused: false }),
+			),
+			netflixBridge.on("pause", () =>
+				this.updatePlayerState({ isPaused: true }),
+			),
+			netflixBridge.on("volumechange", (data) => this.updatePlayerState(data)),
+			netflixBridge.on("sessioncreated", () => this.onSessionCreated()),
+		];
+		this.watchSkipSettings();
+		this.loadPlayerState();
+		this.checkPlayback();
 	}
 
 	onUnload(): void {
+		for (const removeEventListener of this.removeEventListeners) {
+			removeEventListener();
+		}
+		this.removeEventListeners = [];
+		this.settingsWatcher?.abort();
+		this.settingsWatcher = null;
+		this.choicesObserver?.disconnect();
+		this.choicesObserver = null;
+		this.scrubber?.stop();
+		this.sleepTimer.dispose();
+		this.indicator?.hide();
+		this.osd?.hide();
+		this.overlay?.close();
+		this.setActiveSkipSegment(null);
+		if (this.episodeActions) {
+			window.actionHandler.removeAll(this.episodeActions);
+		}
 		this.actionHandler.removeAll(this.getActions());
 		super.onUnload();
 		console.log("[WATCH] Netflix watch page unloaded");
@@ -88,46 +289,436 @@ export class WatchVideo extends NavigatablePage {
 			{
 				label: "Play/Pause",
 				index: GAMEPAD_BUTTONS.BUTTON_BOTTOM,
-				onPress: () => this.togglePlayPause(),
+				id: "playPause",
+				onPress: () => {
+					window.rumble?.("pulse");
+					this.togglePlayPause();
+				},
 			},
 			{
 				label: "Mute",
 				index: GAMEPAD_BUTTONS.BUTTON_LEFT,
+				id: "mute",
 				onPress: () => this.toggleMute(),
 			},
 			{
 				label: "Fullscreen",
 				index: GAMEPAD_BUTTONS.BUTTON_TOP,
+				id: "fullscreen",
 				onPress: () => this.toggleFullscreen(),
 			},
 			{
 				label: "Back",
 				index: GAMEPAD_BUTTONS.BUTTON_RIGHT,
+				id: "back",
 				onPress: () => this.goBack(),
 			},
+			{
+				label: "Volume Down",
+				index: GAMEPAD_BUTTONS.D_PAD_BOTTOM,
+				id: "volumeDown",
+				onPress: () =>
+					this.speedModifierHeld
+						? this.changePlaybackRate(-1)
+						: this.volumeDown(),
+			},
+			{
+				label: "Volume Up",
+				index: GAMEPAD_BUTTONS.D_PAD_UP,
+				id: "volumeUp",
+				onPress: () =>
+					this.speedModifierHeld ? this.changePlaybackRate(1) : this.volumeUp(),
+			},
+			{
+				label: "Hold for Speed",
+				index: GAMEPAD_BUTTONS.BUTTON_JOYSTICK_LEFT,
+				id: "speedModifier",
+				onPress: () => {
+					this.speedModifierHeld = true;
+				},
+				onRelease: () => {
+					this.speedModifierHeld = false;
+				},
+			},
+			{
+				label: "Cycle Speed",
+				index: GAMEPAD_BUTTONS.BUTTON_JOYSTICK_LEFT,
+				chord: GAMEPAD_BUTTONS.BUTTON_TOP,
+				onPress: () => this.changePlaybackRate(1, true),
+			},
+			{
+				label: "Audio & Subtitles",
+				index: GAMEPAD_BUTTONS.BUTTON_CONTROL_LEFT,
+				id: "audioSubtitles",
+				onPress: () => this.openTrackPicker(),
+			},
+			this.startAction,
+			// interactive titles do not allow seeking while a choice is up
+			...(this.choices ? [] : this.getSeekActions()),
+		];
+	}
+
+	getSeekActions(): NavigationAction[] {
+		return [
 			{
 				label: "Seek Back 10s",
 				index: GAMEPAD_BUTTONS.D_PAD_LEFT,
+				id: "seekBack",
 				onPress: () => this.seekBackward(10),
 			},
 			{
 				label: "Seek Forward 10s",
 				index: GAMEPAD_BUTTONS.D_PAD_RIGHT,
+				id: "seekForward",
 				onPress: () => this.seekForward(10),
 			},
 			{
-				label: "Volume Down",
-				index: GAMEPAD_BUTTONS.D_PAD_BOTTOM,
-				onPress: () => this.volumeDown(),
+				label: "Scrub Back",
+				index: GAMEPAD_BUTTONS.TRIGGER_LEFT,
+				id: "scrubBack",
+				onPress: () => this.scrubber?.begin(),
 			},
 			{
-				label: "Volume Up",
-				index: GAMEPAD_BUTTONS.D_PAD_UP,
-				onPress: () => this.volumeUp(),
+				label: "Scrub Forward",
+				index: GAMEPAD_BUTTONS.TRIGGER_RIGHT,
+				id: "scrubForward",
+				onPress: () => this.scrubber?.begin(),
 			},
 		];
 	}
 
+	// all player actions currently registered, including conditional ones
+	getPlayerActions(): NavigationAction[] {
+		return [...this.getActions(), ...(this.episodeActions ?? [])];
+	}
+
+	onDirectionAction(direction: number): void {
+		if (this.overlay) {
+			this.overlay.onDirectionAction(direction);
+		} else if (this.choices) {
+			super.onDirectionAction(direction);
+		}
+		// otherwise the d-pad is handled by the seek and volume actions
+	}
+
+	// ===== INTERACTIVE CHOICES =====
+
+	checkChoices(): void {
+		const visible = document.querySelector(CHOICES_SELECTOR) !== null;
+		if (visible && !this.choices) {
+			this.showChoices();
+		} else if (!visible && this.choices) {
+			this.hideChoices();
+		}
+	}
+
+	showChoices(): void {
+		console.log("[WATCH] Interactive choices shown");
+		this.overlay?.close();
+		window.actionHandler.removeAll(this.getSeekActions());
+		this.choices = new InteractiveChoices((keyCode) =>
+			this.dispatchKey(keyCode),
+		);
+		this.addNavigatable(0, this.choices);
+		this.position = 0;
+		// the choices' Select replaces Play/Pause until a choice is made
+		this.enter({});
+	}
+
+	hideChoices(): void {
+		console.log("[WATCH] Interactive choices hidden");
+		this.exit();
+		if (this.choices) {
+			this.removeNavigatable(this.choices);
+		}
+		this.choices = null;
+		this.position = 0;
+		window.actionHandler.addAll(this.getPlayerActions());
+	}
+
+	// ===== OVERLAYS =====
+
+	openOverlay(overlay: OverlayMenu): void {
+		if (overlay.isEmpty() || this.choices) {
+			overlay.close();
+			return;
+		}
+		this.overlay?.close();
+		// the modifier's release goes to the overlay, so drop it now
+		this.speedModifierHeld = false;
+		window.actionHandler.removeAll(this.getPlayerActions());
+		window.actionHandler.addAll(overlay.getActions());
+		this.overlay = overlay;
+	}
+
+	onOverlayClosed(overlay: OverlayMenu): void {
+		if (this.overlay !== overlay) return;
+		this.overlay = null;
+		window.actionHandler.removeAll(overlay.getActions());
+		if (!this.unloaded) {
+			window.actionHandler.addAll(this.getPlayerActions());
+		}
+	}
+
+	// ===== PLAYER EVENTS =====
+
+	async loadPlayerState(): Promise<void> {
+		const info = await this.queryNetflix("getSessionInfo");
+		if (info?.currentTime === undefined || info.duration === undefined) {
+			return;
+		}
+		this.updatePlayerState({
+			currentTime: info.currentTime,
+			duration: info.duration,
+			isPaused: !!info.isPaused,
+			isMuted: !!info.isMuted,
+			volume: info.volume ?? 0,
+		});
+	}
+
+	updatePlayerState(changes: Partial<PlayerOsdState>): void {
+		if (this.unloaded) return;
+		this.playerState = {
+			currentTime: 0,
+			duration: 0,
+			isPaused: false,
+			isMuted: false,
+			volume: 0,
+			...this.playerState,
+			...changes,
+		};
+		this.updateOsd();
+	}
+
+	onTimeUpdate(data: { currentTime: number; duration: number }): void {
+		this.updatePlayerState(data);
+		const now = Date.now();
+		if (now - this.lastPlaybackCheck >= PLAYBACK_CHECK_INTERVAL) {
+			this.lastPlaybackCheck = now;
+			this.checkPlayback();
+		}
+	}
+
+	// a new video started without leaving the page, e.g. through autoplay
+	onSessionCreated(): void {
+		if (this.unloaded) return;
+		console.log("[WATCH] Playback session created");
+		this.skippedSegments.clear();
+		this.subtitlesRestored = false;
+		if (this.episodeActions) {
+			window.actionHandler.removeAll(this.episodeActions);
+			this.episodeActions = null;
+		}
+		this.loadPlayerState();
+	}
+
+	// ===== ON-SCREEN DISPLAY =====
+
+	// render the latest player state, revealing the display after a player action
+	updateOsd(reveal: boolean = false): void {
+		if (!this.osd) return;
+		if (reveal) {
+			this.osd.reveal();
+		}
+		if (!this.playerState || this.overlay || this.scrubber?.isScrubbing()) {
+			this.osd.hide();
+			return;
+		}
+		this.osd.update(this.playerState);
+	}
+
+	// ===== SLEEP TIMER =====
+
+	openSleepTimerMenu(): void {
+		const minutes = this.sleepTimer.getMinutes();
+		const select = (apply: () => void) => () => {
+			apply();
+			menu.close();
+			this.checkSleepTimer();
+		};
+		const menu: OverlayMenu = new OverlayMenu(
+			"Sleep Timer",
+			[
+				{
+					title: "Pause playback",
+					items: [
+						{
+							label: "Off",
+							checked: !this.sleepTimer.isActive(),
+							onSelect: select(() => this.sleepTimer.cancel()),
+						},
+						...SLEEP_TIMER_MINUTES.map((option) => ({
+							label: `In ${option} minutes`,
+							checked: minutes === option,
+							onSelect: select(() => this.sleepTimer.setMinutes(option)),
+						})),
+						{
+							label: "At the end of this episode",
+							checked: this.sleepTimer.isEndOfEpisode(),
+							onSelect: select(() => this.sleepTimer.setEndOfEpisode()),
+						},
+					],
+				},
+			],
+			this.player ?? document.body,
+			() => this.onOverlayClosed(menu),
+		);
+		this.openOverlay(menu);
+	}
+
+	async checkSleepTimer(): Promise<void> {
+		this.sleepRemaining = await this.sleepTimer.getRemaining();
+		if (this.unloaded) return;
+		this.updateStartAction();
+		this.sleepTimer.check();
+	}
+
+	// playback left until the credits, or the end when there are none
+	async getEpisodeRemaining(): Promise<number | null> {
+		const result = await this.queryNetflix("getSkipSegments");
+		if (result?.currentTime === undefined || result.duration === undefined) {
+			return null;
+		}
+		const end = result.credits?.start ?? result.duration;
+		return end - result.currentTime;
+	}
+
+	updateStartAction(): void {
+		let label = "Sleep Timer";
+		if (this.activeSkipSegment) {
+			label = SKIP_LABELS[this.activeSkipSegment.type];
+		} else if (this.sleepTimer.isActive() && this.sleepRemaining !== null) {
+			label = `Sleep in ${formatTime(this.sleepRemaining)}`;
+		}
+		if (label !== this.startAction.label) {
+			this.startAction.label = label;
+			window.actionHandler.updateHints();
+		}
+	}
+
+	// ===== PLAYBACK SPEED =====
+
+	// steps through the presets, starting over at the slowest one when cycling
+	async changePlaybackRate(step: number, cycle = false): Promise<void> {
+		const rate = (await this.queryNetflix("getPlaybackRate"))?.rate;
+		if (rate === undefined || this.unloaded) {
+			return;
+		}
+		// snap unknown rates to the closest preset before stepping
+		const closest = PLAYBACK_RATES.reduce(
+			(best, candidate, i) =>
+				Math.abs(candidate - rate) < Math.abs(PLAYBACK_RATES[best] - rate)
+					? i
+					: best,
+			0,
+		);
+		const index = cycle
+			? (closest + step + PLAYBACK_RATES.length) % PLAYBACK_RATES.length
+			: Math.min(Math.max(closest + step, 0), PLAYBACK_RATES.length - 1);
+		const result = await this.queryNetflix(
+			"setPlaybackRate",
+			PLAYBACK_RATES[index],
+		);
+		if (result) {
+			this.indicator?.show(`Speed ${PLAYBACK_RATES[index]}x`);
+			this.updateOsd(true);
+		}
+	}
+
+	// ===== SCRUBBING =====
+
+	async onScrubStart(): Promise<ScrubPosition | null> {
+		const info = await this.queryNetflix("getSessionInfo");
+		if (info?.currentTime === undefined || info.duration === undefined) {
+			console.warn("[WATCH] Could not read playback position for scrubbing");
+			return null;
+		}
+		// keep the picture still while the target is chosen
+		this.pausedForScrub = !info.isPaused;
+		if (this.pausedForScrub) {
+			await this.queryNetflix("setPaused", true);
+		}
+		return { currentTime: info.currentTime, duration: info.duration };
+	}
+
+	async onScrubCommit(timeMs: number): Promise<void> {
+		console.log("[WATCH] Committing scrub to", timeMs);
+		await this.seekTo(timeMs);
+		if (this.pausedForScrub) {
+			this.pausedForScrub = false;
+			await this.queryNetflix("setPaused", false);
+		}
+		this.updateOsd(true);
+	}
+
+	// ===== AUDIO & SUBTITLES =====
+
+	async openTrackPicker(): Promise<void> {
+		const result = await this.queryNetflix("getTracks");
+		if (!result || this.unloaded) {
+			return;
+		}
+		const { profileId, audio = [], text = [] } = result;
+		const menu: OverlayMenu = new OverlayMenu(
+			"Audio & Subtitles",
+			[
+				{
+					title: "Audio",
+					items: audio.map((track) => ({
+						label: track.label,
+						checked: track.selected,
+						onSelect: () => this.queryNetflix("setAudioTrack", track.id),
+					})),
+				},
+				{
+					title: "Subtitles",
+					items: text.map((track) => ({
+						label: track.isOff ? "Off" : track.label,
+						checked: track.selected,
+						onSelect: () => this.selectTextTrack(track, profileId),
+					})),
+				},
+			],
+			this.player ?? document.body,
+			() => this.onOverlayClosed(menu),
+		);
+		this.openOverlay(menu);
+	}
+
+	async selectTextTrack(track: TrackInfo, profileId?: string): Promise<void> {
+		const result = await this.queryNetflix("setTextTrack", track.id);
+		if (!result) {
+			return;
+		}
+		const language = track.isOff ? SUBTITLES_OFF : track.language;
+		if (profileId && language) {
+			const languages = (await S.subtitleLanguages.get()) ?? {};
+			await S.subtitleLanguages.set({ ...languages, [profileId]: language });
+		}
+	}
+
+	// re-apply the profile's last chosen subtitle language
+	async restoreSubtitleLanguage(): Promise<void> {
+		const result = await this.queryNetflix("getTracks");
+		if (!result || this.unloaded || this.subtitlesRestored) {
+			return;
+		}
+		this.subtitlesRestored = true;
+		const profileId = result.profileId;
+		if (!profileId) return;
+		const language = (await S.subtitleLanguages.get())?.[profileId];
+		if (!language) return;
+		const track = result.text?.find((candidate) =>
+			language === SUBTITLES_OFF
+				? candidate.isOff
+				: !candidate.isOff && candidate.language === language,
+		);
+		if (track && !track.selected) {
+			console.log(`[WATCH] Restoring subtitle language ${language}`);
+			await this.queryNetflix("setTextTrack", track.id);
+		}
+	}
+
 	// ===== PLAYER CONTROL METHODS =====
 	// Primary: Netflix API via message bridge
 	// Fallback: Keyboard events on player element
@@ -136,152 +727,261 @@ export class WatchVideo extends NavigatablePage {
 		console.log("[WATCH] Executing togglePlayPause");
 
 		try {
-			// Get initial status
-			const initialStatus = await this.sendNetflixCommand("getPlaybackStatus");
-			const wasPaused = initialStatus?.isPaused;
-			console.log("[WATCH] Initial playback status:", { wasPaused });
-
-			// Send toggle command
-			const toggleResult = await this.sendNetflixCommand("togglePlayPause");
-
-			if (toggleResult?.success) {
-				// Wait a bit for the change to take effect, then verify
-				setTimeout(async () => {
-					try {
-						const finalStatus =
-							await this.sendNetflixCommand("getPlaybackStatus");
-						const isNowPaused = finalStatus?.isPaused;
-
-						if (isNowPaused !== wasPaused) {
-							console.log(
-								"[WATCH] Netflix API togglePlayPause successful - status changed from",
-								wasPaused,
-								"to",
-								isNowPaused,
-							);
-						} else {
-							console.log(
-								"[WATCH] Netflix API togglePlayPause failed - status didn't change, using keyboard fallback",
-							);
-							this.dispatchKey(32); // Space key
-						}
-					} catch {
-						console.log(
-							"[WATCH] Could not verify status change, assuming API worked",
-						);
-					}
-				}, 100); // Small delay to let the API call take effect
+			// listen before toggling so the confirming event cannot be missed
+			const confirmed = netflixBridge.once(
+				["play", "pause"],
+				TOGGLE_CONFIRM_TIMEOUT,
+			);
+			await this.sendNetflixCommand("togglePlayPause");
+			const event = await confirmed;
+			if (event) {
+				console.log(
+					`[WATCH] Netflix API togglePlayPause successful - ${event}`,
+				);
 			} else {
-				console.log("[WATCH] Netflix API failed, using keyboard fallback");
+				console.log(
+					"[WATCH] Netflix API togglePlayPause failed - status didn't change, using keyboard fallback",
+				);
 				this.dispatchKey(32); // Space key
 			}
 		} catch (error) {
 			console.warn(
-				"[WATCH] Could not get initial status, using keyboard fallback:",
+				"[WATCH] Netflix API failed, using keyboard fallback:",
 				error,
 			);
 			this.dispatchKey(32); // Space key
 		}
+		this.updateOsd(true);
 	}
 
 	async toggleMute(): Promise<void> {
 		console.log("[WATCH] Executing toggleMute");
 
 		try {
-			const result = await this.sendNetflixCommand("toggleMute");
-			if (result?.success) {
-				console.log("[WATCH] Netflix API toggleMute successful");
-			} else {
-				console.log("[WATCH] Netflix API failed, using keyboard fallback");
-				this.dispatchKey(77); // M key
-			}
+			await this.sendNetflixCommand("toggleMute");
+			console.log("[WATCH] Netflix API toggleMute successful");
 		} catch (error) {
 			console.warn(
-				"[WATCH] Message bridge failed, using keyboard fallback:",
+				"[WATCH] Netflix API failed, using keyboard fallback:",
 				error,
 			);
 			this.dispatchKey(77); // M key
 		}
+		this.updateOsd(true);
 	}
 
 	async seekForward(seconds: number = 10): Promise<void> {
 		console.log("[WATCH] Executing seekForward");
 
 		try {
-			const result = await this.sendNetflixCommand("seekForward", seconds);
-			if (result?.success) {
-				console.log("[WATCH] Netflix API seekForward successful");
-			} else {
-				console.log("[WATCH] Netflix API failed, using keyboard fallback");
-				this.dispatchKey(39); // Right arrow
-			}
+			await this.sendNetflixCommand("seekForward", seconds);
+			console.log("[WATCH] Netflix API seekForward successful");
 		} catch (error) {
 			console.warn(
-				"[WATCH] Message bridge failed, using keyboard fallback:",
+				"[WATCH] Netflix API failed, using keyboard fallback:",
 				error,
 			);
 			this.dispatchKey(39); // Right arrow
 		}
+		this.updateOsd(true);
 	}
 
 	async seekBackward(seconds: number = 10): Promise<void> {
 		console.log("[WATCH] Executing seekBackward");
 
 		try {
-			const result = await this.sendNetflixCommand("seekBackward", seconds);
-			if (result?.success) {
-				console.log("[WATCH] Netflix API seekBackward successful");
-			} else {
-				console.log("[WATCH] Netflix API failed, using keyboard fallback");
-				this.dispatchKey(37); // Left arrow
-			}
+			await this.sendNetflixCommand("seekBackward", seconds);
+			console.log("[WATCH] Netflix API seekBackward successful");
 		} catch (error) {
 			console.warn(
-				"[WATCH] Message bridge failed, using keyboard fallback:",
+				"[WATCH] Netflix API failed, using keyboard fallback:",
 				error,
 			);
 			this.dispatchKey(37); // Left arrow
 		}
+		this.updateOsd(true);
 	}
 
 	async volumeUp(delta: number = 0.1): Promise<void> {
 		console.log("[WATCH] Executing volumeUp");
 
 		try {
-			const result = await this.sendNetflixCommand("volumeUp", delta);
-			if (result?.success) {
-				console.log("[WATCH] Netflix API volumeUp successful");
-			} else {
-				console.log("[WATCH] Netflix API failed, using keyboard fallback");
-				this.dispatchKey(38); // Up arrow
-			}
+			await this.sendNetflixCommand("volumeUp", delta);
+			console.log("[WATCH] Netflix API volumeUp successful");
 		} catch (error) {
 			console.warn(
-				"[WATCH] Message bridge failed, using keyboard fallback:",
+				"[WATCH] Netflix API failed, using keyboard fallback:",
 				error,
 			);
 			this.dispatchKey(38); // Up arrow
 		}
+		this.updateOsd(true);
 	}
 
 	async volumeDown(delta: number = 0.1): Promise<void> {
 		console.log("[WATCH] Executing volumeDown");
 
 		try {
-			const result = await this.sendNetflixCommand("volumeDown", delta);
-			if (result?.success) {
-				console.log("[WATCH] Netflix API volumeDown successful");
-			} else {
-				console.log("[WATCH] Netflix API failed, using keyboard fallback");
-				this.dispatchKey(40); // Down arrow
-			}
+			await this.sendNetflixCommand("volumeDown", delta);
+			console.log("[WATCH] Netflix API volumeDown successful");
 		} catch (error) {
 			console.warn(
-				"[WATCH] Message bridge failed, using keyboard fallback:",
+				"[WATCH] Netflix API failed, using keyboard fallback:",
 				error,
 			);
 			this.dispatchKey(40); // Down arrow
 		}
+		this.updateOsd(true);
+	}
+
+	checkPlayback(): void {
+		this.checkSleepTimer();
+		if (this.overlay) {
+			// leave the action set alone while an overlay owns the controller
+			return;
+		}
+		this.checkSkipSegments();
+		if (!this.episodeActions) {
+			// episode metadata may load after the video element appears
+			this.updateEpisodeActions();
+		}
+		if (!this.subtitlesRestored) {
+			this.restoreSubtitleLanguage();
+		}
+	}
+
+	// ===== EPISODE NAVIGATION =====
+
+	async updateEpisodeActions(): Promise<void> {
+		const result = await this.queryNetflix("getEpisodeInfo");
+		if (!result || this.unloaded || this.episodeActions) {
+			return;
+		}
+		// movies and the edges of a series get no episode actions
+		const actions: NavigationAction[] = [];
+		if (result.isEpisode && result.hasPrevious) {
+			actions.push({
+				label: "Previous Episode",
+				index: GAMEPAD_BUTTONS.BUMPER_LEFT,
+				id: "previousEpisode",
+				onPress: () => this.previousEpisode(),
+			});
+		}
+		if (result.isEpisode && result.hasNext) {
+			actions.push({
+				label: "Next Episode",
+				index: GAMEPAD_BUTTONS.BUMPER_RIGHT,
+				id: "nextEpisode",
+				onPress: () => this.nextEpisode(),
+			});
+		}
+		this.episodeActions = actions;
+		window.actionHandler.addAll(actions);
+	}
+
+	async nextEpisode(): Promise<void> {
+		console.log("[WATCH] Executing nextEpisode");
+		if (await this.queryNetflix("nextEpisode")) {
+			console.log("[WATCH] Netflix API nextEpisode successful");
+		}
+	}
+
+	async previousEpisode(): Promise<void> {
+		console.log("[WATCH] Executing previousEpisode");
+		if (await this.queryNetflix("previousEpisode")) {
+			console.log("[WATCH] Netflix API previousEpisode successful");
+		}
+	}
+
+	// ===== SKIP INTRO / RECAP / CREDITS =====
+
+	getSkipMode(type: SkipSegmentType): SkipMode {
+		if (type === "intro") return this.settings.skipIntro;
+		if (type === "recap") return this.settings.skipRecap;
+		return this.settings.skipCredits;
+	}
+
+	// skip modes changed in the options apply to the playing title right away
+	watchSkipSettings(): void {
+		this.settingsWatcher = new AbortController();
+		const { signal } = this.settingsWatcher;
+		S.skipIntro.onChanged((val) => {
+			this.settings.skipIntro = val;
+			this.checkSkipSegments();
+		}, signal);
+		S.skipRecap.onChanged((val) => {
+			this.settings.skipRecap = val;
+			this.checkSkipSegments();
+		}, signal);
+		S.skipCredits.onChanged((val) => {
+			this.settings.skipCredits = val;
+			this.checkSkipSegments();
+		}, signal);
+	}
+
+	async checkSkipSegments(): Promise<void> {
+		const result = await this.queryNetflix("getSkipSegments");
+		if (result?.currentTime === undefined || this.unloaded) {
+			return;
+		}
+		const currentTime = result.currentTime;
+		let active: SkipSegment | null = null;
+		for (const type of ["intro", "recap", "credits"] as SkipSegmentType[]) {
+			const segment = result[type];
+			if (
+				segment &&
+				this.getSkipMode(type) !== "Off" &&
+				currentTime >= segment.start &&
+				currentTime < segment.end
+			) {
+				active = { type, start: segment.start, end: segment.end };
+				break;
+			}
+		}
+
+		if (active && this.getSkipMode(active.type) === "Skip automatically") {
+			// only skip once so users can still seek back into a segment deliberately
+			const key = `${active.type}-${active.start}`;
+			if (!this.skippedSegments.has(key)) {
+				this.skippedSegments.add(key);
+				console.log(`[WATCH] Automatically skipping ${active.type}`);
+				await this.seekTo(active.end);
+			}
+			active = null;
+		}
+		this.setActiveSkipSegment(active);
+	}
+
+	setActiveSkipSegment(segment: SkipSegment | null): void {
+		this.activeSkipSegment = segment;
+		this.updateStartAction();
+	}
+
+	async skipActiveSegment(): Promise<void> {
+		const segment = this.activeSkipSegment;
+		if (!segment) return;
+		console.log(`[WATCH] Skipping ${segment.type}`);
+		this.skippedSegments.add(`${segment.type}-${segment.start}`);
+		this.setActiveSkipSegment(null);
+		await this.seekTo(segment.end);
+		this.updateOsd(true);
+	}
+
+	async seekTo(timeMs: number): Promise<void> {
+		try {
+			await this.sendNetflixCommand("seekTo", timeMs);
+			console.log("[WATCH] Netflix API seekTo successful");
+			return;
+		} catch (error) {
+			console.warn(
+				"[WATCH] Netflix API failed, using skip button fallback:",
+				error,
+			);
+		}
+		const skipButton = document.querySelector(
+			SKIP_BUTTON_SELECTOR,
+		) as HTMLElement | null;
+		skipButton?.click();
 	}
 
 	toggleFullscreen(): void {
@@ -322,42 +1022,26 @@ export class WatchVideo extends NavigatablePage {
 
 	// ===== MESSAGE BRIDGE =====
 
-	sendNetflixCommand(
-		command: string,
-		...args: unknown[]
-	): Promise<Record<string, unknown>> {
-		return new Promise((resolve) => {
-			const requestId = Date.now() + Math.random();
-
-			// Listen for response
-			const responseHandler = (event: MessageEvent) => {
-				if (
-					event.data?.type === "netflix-controller-response" &&
-					event.data.requestId === requestId
-				) {
-					window.removeEventListener("message", responseHandler);
-					resolve(event.data.result);
-				}
-			};
-
-			window.addEventListener("message", responseHandler);
-
-			// Send command to main world
-			window.postMessage(
-				{
-					type: "netflix-controller-command",
-					command,
-					args,
-					requestId,
-				},
-				"*",
-			);
+	sendNetflixCommand<C extends BridgeCommand>(
+		command: C,
+		...args: BridgeArgs<C>
+	): Promise<BridgeResult<C>> {
+		return netflixBridge.call(command, ...args);
+	}
 
-			// Timeout after 5 seconds
-			setTimeout(() => {
-				window.removeEventListener("message", responseHandler);
-				resolve({ success: false, error: "Timeout" });
-			}, 5000);
-		});
+	// like sendNetflixCommand, but resolves null when the command fails
+	async queryNetflix<C extends BridgeCommand>(
+		command: C,
+		...args: BridgeArgs<C>
+	): Promise<BridgeResult<C> | null> {
+		try {
+			return await this.sendNetflixCommand(command, ...args);
+		} catch (error) {
+			// the player is expected to be missing while the video loads
+			if (!(error instanceof BridgeCallError && error.code === "NO_PLAYER")) {
+				console.warn(`[WATCH] Netflix API ${command} failed:`, error);
+			}
+			return null;
+		}
 	}
 }
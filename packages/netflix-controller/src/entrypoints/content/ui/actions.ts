@@ -4,6 +4,7 @@ import type { NavigationAction } from "../../../types/components";
 import type { Settings } from "../../../types/settings";
 import { gamepadMappings } from "../../../utils/gamepad-icons.ts";
 import { DIRECTION } from "../components/direction.ts";
+import { DirectionRepeater } from "../components/direction-repeater.ts";
 import { BottomBar } from "./bottom-bar.js";
 
 const DIRECTION_MAP: Record<number, number> = {
@@ -13,55 +14,140 @@ const DIRECTION_MAP: Record<number, number> = {
 	[GAMEPAD_BUTTONS.D_PAD_RIGHT]: DIRECTION.RIGHT,
 };
 
+// how long a button must be held to trigger an action's long press
+const LONG_PRESS_DURATION = 500;
+
 /**
- * Action { label, index, onPress, onRelease, hideHint }
+ * Action { label, index, id, onPress, onRelease, hideHint, onLongPress,
+ * longPressLabel, chord }
+ * Actions with an id are registered on the button the user bound that id to
+ * in the options, falling back to their own index. Chord actions always use
+ * their default buttons.
  */
 
 export class ActionHandler {
 	storage: Settings;
 	hintsBar: ActionHintsBar;
 	actions: Record<number, NavigationAction>;
+	chords: NavigationAction[];
 	onDirection: ((direction: number) => void) | null;
 	onInput: (() => void) | null;
+	// held directions are not repeated while this returns true
+	isDirectionLocked: (() => boolean) | null;
+	repeater: DirectionRepeater;
+	pressed: Set<number>;
+	// buttons whose short press waits for the release to rule out a long press
+	deferred: Set<number>;
+	// buttons whose release is ignored because a long press or chord used them
+	consumed: Set<number>;
+	longPressTimers: Map<number, ReturnType<typeof setTimeout>>;
+	activeChord: NavigationAction | null;
 
 	constructor(storage: Settings) {
 		this.storage = storage;
 		this.hintsBar = new ActionHintsBar(storage);
 		this.actions = {};
+		this.chords = [];
 		this.onDirection = null;
 		this.onInput = null;
+		this.isDirectionLocked = null;
+		this.repeater = new DirectionRepeater(
+			storage,
+			(direction) => this.onDirection?.(direction),
+			() => this.isDirectionLocked?.() ?? false,
+		);
+		this.pressed = new Set();
+		this.deferred = new Set();
+		this.consumed = new Set();
+		this.longPressTimers = new Map();
+		this.activeChord = null;
+	}
+
+	getButton(action: NavigationAction): number {
+		if (action.id === undefined || action.chord !== undefined) {
+			return action.index;
+		}
+		return this.storage.buttonBindings?.[action.id] ?? action.index;
+	}
+
+	register(action: NavigationAction): void {
+		if (action.chord !== undefined) {
+			if (!this.chords.includes(action)) {
+				this.chords.push(action);
+			}
+		} else {
+			this.actions[this.getButton(action)] = action;
+		}
+	}
+
+	unregister(action: NavigationAction): void {
+		if (action.chord !== undefined) {
+			this.chords = this.chords.filter((chord) => chord !== action);
+		} else {
+			const button = this.getButton(action);
+			// another action may have taken the button since
+			if (this.isSameAction(this.actions[button], action)) {
+				delete this.actions[button];
+			}
+		}
+	}
+
+	// pages build their actions anew on each call, so they are matched by id or label
+	isSameAction(
+		registered: NavigationAction | undefined,
+		action: NavigationAction,
+	): boolean {
+		if (registered === undefined || registered === action) {
+			return registered === action;
+		}
+		return action.id !== undefined
+			? registered.id === action.id
+			: registered.label === action.label;
 	}
 
 	addAction(action: NavigationAction): void {
-		this.actions[action.index] = action;
+		this.register(action);
 		this.updateHints();
 	}
 
 	removeAction(action: NavigationAction): void {
-		delete this.actions[action.index];
+		this.unregister(action);
 		this.updateHints();
 	}
 
 	addAll(actions: NavigationAction[]): void {
 		for (const action of actions) {
-			this.actions[action.index] = action;
+			this.register(action);
 		}
 		this.updateHints();
 	}
 
 	removeAll(actions: NavigationAction[]): void {
 		for (const action of actions) {
-			delete this.actions[action.index];
+			this.unregister(action);
 		}
 		this.updateHints();
 	}
 
+	// re-register the current actions after the button bindings changed
+	rebindActions(): void {
+		const actions = Object.values(this.actions);
+		this.actions = {};
+		this.addAll(actions);
+	}
+
 	updateHints(): void {
 		if (this.hintsBar) {
-			this.hintsBar.update(this.actions);
+			this.hintsBar.update(this.actions, this.chords);
 		}
 	}
 
+	// show the button icons of the controller in use instead of the preference
+	setButtonMapping(mapping: string | null): void {
+		this.hintsBar.buttonMapping = mapping;
+		this.updateHints();
+	}
+
 	showHints(): void {
 		this.hintsBar.add();
 		this.updateHints();
@@ -71,31 +157,120 @@ export class ActionHandler {
 		this.hintsBar.remove();
 	}
 
+	// the chord triggered by pressing a button while another one is held
+	getChord(held: number, pressed: number): NavigationAction | null {
+		return (
+			this.chords.find(
+				(chord) => chord.index === held && chord.chord === pressed,
+			) ?? null
+		);
+	}
+
 	onButtonPress(index: number): void {
 		if (this.onInput) {
 			this.onInput(); // non-specific activity callback
 		}
-		if (index in DIRECTION_MAP && this.onDirection) {
-			this.onDirection(DIRECTION_MAP[index]);
+		this.pressed.add(index);
+		if (index in DIRECTION_MAP) {
+			this.pressDirection(DIRECTION_MAP[index]);
+		}
+		for (const other of this.pressed) {
+			const chord = other !== index ? this.getChord(other, index) : null;
+			if (chord) {
+				// the held button already fired on press, only its pending short press is dropped
+				this.clearLongPress(other);
+				this.deferred.delete(other);
+				this.consume(index);
+				this.activeChord = chord;
+				chord.onPress();
+				return;
+			}
 		}
-		if (index in this.actions) {
-			this.actions[index].onPress?.();
+		const action = this.actions[index];
+		if (!action) return;
+		if (action.onLongPress) {
+			const onLongPress = action.onLongPress;
+			this.deferred.add(index);
+			this.longPressTimers.set(
+				index,
+				setTimeout(() => {
+					this.consume(index);
+					onLongPress();
+				}, LONG_PRESS_DURATION),
+			);
+		} else {
+			action.onPress?.();
 		}
 	}
 
 	onButtonRelease(index: number): void {
-		if (index in this.actions) {
-			this.actions[index].onRelease?.();
+		this.pressed.delete(index);
+		if (index in DIRECTION_MAP) {
+			this.releaseDirection(DIRECTION_MAP[index]);
 		}
+		this.clearLongPress(index);
+		if (this.consumed.delete(index)) {
+			if (this.activeChord) {
+				this.activeChord.onRelease?.();
+				this.activeChord = null;
+			}
+			return;
+		}
+		const action = this.actions[index];
+		if (this.deferred.delete(index)) {
+			// released before a long press was recognised
+			action?.onPress?.();
+		}
+		action?.onRelease?.();
+	}
+
+	// the button's short press and release no longer fire
+	consume(index: number): void {
+		this.clearLongPress(index);
+		this.deferred.delete(index);
+		this.consumed.add(index);
+	}
+
+	clearLongPress(index: number): void {
+		const timer = this.longPressTimers.get(index);
+		if (timer !== undefined) {
+			clearTimeout(timer);
+			this.longPressTimers.delete(index);
+		}
+	}
+
+	// forget held buttons whose release will not be delivered
+	releaseAll(): void {
+		this.repeater.stop();
+		for (const index of this.longPressTimers.keys()) {
+			this.clearLongPress(index);
+		}
+		this.pressed.clear();
+		this.deferred.clear();
+		this.consumed.clear();
+		this.activeChord = null;
+	}
+
+	pressDirection(direction: number): void {
+		if (this.onDirection) {
+			this.onDirection(direction);
+		}
+		this.repeater.press(direction);
+	}
+
+	releaseDirection(direction: number): void {
+		this.repeater.release(direction);
 	}
 }
 
 export class ActionHintsBar extends BottomBar {
 	storage: Settings;
+	buttonMapping: string | null;
 
 	constructor(storage: Settings) {
 		super();
 		this.storage = storage;
+		this.buttonMapping = null;
 	}
 
 	createBar(): HTMLElement {
@@ -105,30 +280,52 @@ export class ActionHintsBar extends BottomBar {
 		return hintsBar;
 	}
 
-	createHint(action: NavigationAction): string | null {
-		const buttonMapping = this.storage.buttonImageMapping || "Xbox One";
-		const button = gamepadMappings.getButton(buttonMapping, action.index);
-		if (button) {
+	createHint(label: string, indices: number[], hold = false): string | null {
+		const buttonMapping =
+			this.buttonMapping || this.storage.buttonImageMapping || "Xbox One";
+		const images: string[] = [];
+		for (const index of indices) {
+			const button = gamepadMappings.getButton(buttonMapping, index);
+			if (!button) {
+				return null;
+			}
 			const imageSrc =
 				browser.runtime.getURL(button.buttonImageSrc as PublicPath) ||
 				button.buttonImageSrc;
-			return `<div class='gamepad-interface-hint'>
-                    <img src='${imageSrc}' alt='${button.buttonName}'>
-                    ${action.label}
-                </div>`;
+			images.push(`<img src='${imageSrc}' alt='${button.buttonName}'>`);
 		}
-		return null;
+		return `<div class='gamepad-interface-hint'>
+                    ${hold ? "Hold" : ""}
+                    ${images.join("+")}
+                    ${label}
+                </div>`;
 	}
 
-	update(actions: Record<number, NavigationAction>): void {
+	update(
+		actions: Record<number, NavigationAction>,
+		chords: NavigationAction[] = [],
+	): void {
 		if (this.element) {
 			this.element.innerHTML = "";
-			for (const action of Object.values(actions)) {
+			const hints: (string | null)[] = [];
+			for (const [index, action] of Object.entries(actions)) {
 				if (action.hideHint !== false) {
-					const hint = this.createHint(action);
-					if (hint) {
-						this.element.insertAdjacentHTML("beforeend", hint);
-					}
+					hints.push(this.createHint(action.label, [Number(index)]));
+				}
+				if (action.onLongPress && action.longPressLabel) {
+					hints.push(
+						this.createHint(action.longPressLabel, [Number(index)], true),
+					);
+				}
+			}
+			for (const chord of chords) {
+				if (chord.chord !== undefined && chord.hideHint !== false) {
+					hints.push(this.createHint(chord.label, [chord.index, chord.chord]));
+				}
+			}
+			for (const hint of hints) {
+				if (hint) {
+					this.element.insertAdjacentHTML("beforeend", hint);
 				}
 			}
 		}
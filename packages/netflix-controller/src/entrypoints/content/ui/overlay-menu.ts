@@ -0,0 +1,155 @@
+import { GAMEPAD_BUTTONS } from "@ribajs/gamecontroller.js";
+import type { NavigationAction } from "../../../types/components";
+import { DIRECTION } from "../components/direction.ts";
+
+export interface OverlayMenuItem {
+	label: string;
+	checked?: boolean;
+	onSelect: () => void;
+}
+
+export interface OverlayMenuSection {
+	title: string;
+	items: OverlayMenuItem[];
+}
+
+/**
+ * A d-pad navigable list overlay shown on top of the page or video player.
+ * Each section is rendered as a column of radio-style items: up/down moves
+ * within a column and left/right switches between columns.
+ */
+export class OverlayMenu {
+	sections: OverlayMenuSection[];
+	element: HTMLElement;
+	itemElements: HTMLElement[][];
+	column: number;
+	row: number;
+	closeCallback: (() => void) | null;
+
+	constructor(
+		title: string,
+		sections: OverlayMenuSection[],
+		parent: Element,
+		closeCallback?: () => void,
+	) {
+		this.sections = sections.filter((section) => section.items.length > 0);
+		this.closeCallback = closeCallback ?? null;
+		this.itemElements = [];
+		this.column = 0;
+		this.row = 0;
+
+		this.element = document.createElement("div");
+		this.element.id = "gamepad-interface-overlay-menu";
+		const titleElement = document.createElement("div");
+		titleElement.classList.add("gamepad-interface-overlay-menu-title");
+		titleElement.textContent = title;
+		this.element.append(titleElement);
+
+		const columns = document.createElement("div");
+		columns.classList.add("gamepad-interface-overlay-menu-columns");
+		for (const section of this.sections) {
+			const column = document.createElement("div");
+			column.classList.add("gamepad-interface-overlay-menu-column");
+			const sectionTitle = document.createElement("div");
+			sectionTitle.classList.add("gamepad-interface-overlay-menu-section");
+			sectionTitle.textContent = section.title;
+			column.append(sectionTitle);
+			const elements: HTMLElement[] = [];
+			for (const item of section.items) {
+				const itemElement = document.createElement("div");
+				itemElement.classList.add("gamepad-interface-overlay-menu-item");
+				itemElement.classList.toggle(
+					"gamepad-interface-overlay-menu-checked",
+					!!item.checked,
+				);
+				itemElement.textContent = item.label;
+				column.append(itemElement);
+				elements.push(itemElement);
+			}
+			this.itemElements.push(elements);
+			columns.append(column);
+		}
+		this.element.append(columns);
+		parent.append(this.element);
+
+		// start on the checked item of the first column
+		const checked = this.sections[0]?.items.findIndex((item) => item.checked);
+		this.select(0, checked !== undefined && checked >= 0 ? checked : 0);
+	}
+
+	isEmpty(): boolean {
+		return this.sections.length === 0;
+	}
+
+	select(column: number, row: number): void {
+		this.itemElements[this.column]?.[this.row]?.classList.remove(
+			"gamepad-interface-overlay-menu-selected",
+		);
+		this.column = column;
+		this.row = row;
+		const element = this.itemElements[column]?.[row];
+		if (element) {
+			element.classList.add("gamepad-interface-overlay-menu-selected");
+			element.scrollIntoView({ block: "nearest" });
+		}
+	}
+
+	activate(): void {
+		const section = this.sections[this.column];
+		const item = section?.items[this.row];
+		if (!item) return;
+		section.items.forEach((sectionItem, i) => {
+			sectionItem.checked = i === this.row;
+			this.itemElements[this.column][i].classList.toggle(
+				"gamepad-interface-overlay-menu-checked",
+				i === this.row,
+			);
+		});
+		item.onSelect();
+	}
+
+	close(): void {
+		this.element.remove();
+		if (this.closeCallback) {
+			this.closeCallback();
+		}
+	}
+
+	getActions(): NavigationAction[] {
+		return [
+			{
+				label: "Select",
+				index: GAMEPAD_BUTTONS.BUTTON_BOTTOM,
+				id: "select",
+				onPress: () => this.activate(),
+			},
+			{
+				label: "Close",
+				index: GAMEPAD_BUTTONS.BUTTON_RIGHT,
+				id: "back",
+				onPress: () => this.close(),
+			},
+		];
+	}
+
+	onDirectionAction(direction: number): void {
+		const rows = this.itemElements[this.column]?.length ?? 0;
+		if (direction === DIRECTION.UP && this.row > 0) {
+			this.select(this.column, this.row - 1);
+		} else if (direction === DIRECTION.DOWN && this.row < rows - 1) {
+			this.select(this.column, this.row + 1);
+		} else if (direction === DIRECTION.LEFT && this.column > 0) {
+			this.selectColumn(this.column - 1);
+		} else if (
+			direction === DIRECTION.RIGHT &&
+			this.column < this.sections.length - 1
+		) {
+			this.selectColumn(this.column + 1);
+		}
+	}
+
+	selectColumn(column: number): void {
+		const rows = this.itemElements[column].length;
+		this.select(column, Math.min(this.row, rows - 1));
+	}
+}
@@ -0,0 +1,39 @@
+const DEFAULT_DURATION = 1500;
+
+/**
+ * A short-lived label shown in the middle of the video player, used to
+ * confirm changes that have no visible effect in Netflix's own UI.
+ */
+export class PlayerIndicator {
+	parent: Element;
+	element: HTMLElement | null;
+	removalTimer: number | null;
+
+	constructor(parent: Element) {
+		this.parent = parent;
+		this.element = null;
+		this.removalTimer = null;
+	}
+
+	show(text: string, duration: number = DEFAULT_DURATION): void {
+		if (!this.element) {
+			this.element = document.createElement("div");
+			this.element.id = "gamepad-interface-player-indicator";
+			this.parent.append(this.element);
+		}
+		this.element.textContent = text;
+		if (this.removalTimer !== null) {
+			window.clearTimeout(this.removalTimer);
+		}
+		this.removalTimer = window.setTimeout(() => this.hide(), duration);
+	}
+
+	hide(): void {
+		if (this.removalTimer !== null) {
+			window.clearTimeout(this.removalTimer);
+			this.removalTimer = null;
+		}
+		this.element?.remove();
+		this.element = null;
+	}
+}
@@ -0,0 +1,98 @@
+import { formatTime } from "../../../utils/format-time.ts";
+
+// how long the display stays up after a player action
+const REVEAL_DURATION = 3000;
+
+export interface PlayerOsdState {
+	currentTime: number;
+	duration: number;
+	isPaused: boolean;
+	isMuted: boolean;
+	volume: number;
+}
+
+/**
+ * On-screen display for the video player. Netflix hides its own controls
+ * while the mouse is idle, especially in fullscreen, so gamepad users get
+ * no feedback for seeks or volume changes. The display appears briefly
+ * after each player action and stays up for as long as playback is paused.
+ */
+export class PlayerOsd {
+	parent: Element;
+	element: HTMLElement | null;
+	revealedUntil: number;
+	state: PlayerOsdState | null;
+
+	constructor(parent: Element) {
+		this.parent = parent;
+		this.element = null;
+		this.revealedUntil = 0;
+		this.state = null;
+	}
+
+	reveal(): void {
+		this.revealedUntil = Date.now() + REVEAL_DURATION;
+		if (this.state) {
+			this.update(this.state);
+		}
+	}
+
+	update(state: PlayerOsdState): void {
+		this.state = state;
+		if (state.isPaused || Date.now() < this.revealedUntil) {
+			this.show();
+			this.render();
+		} else {
+			this.hide();
+		}
+	}
+
+	show(): void {
+		if (this.element) return;
+		this.element = document.createElement("div");
+		this.element.id = "gamepad-interface-player-osd";
+		this.element.innerHTML = `
+			<div class='gamepad-interface-player-osd-status'>
+				<span class='gamepad-interface-player-osd-paused'>Paused</span>
+				<span class='gamepad-interface-player-osd-volume'>
+					<span class='gamepad-interface-player-osd-volume-label'></span>
+					<span class='gamepad-interface-player-osd-volume-track'>
+						<span class='gamepad-interface-player-osd-volume-fill'></span>
+					</span>
+				</span>
+			</div>
+			<div class='gamepad-interface-player-osd-progress'>
+				<span class='gamepad-interface-player-osd-elapsed'></span>
+				<div class='gamepad-interface-player-osd-track'>
+					<div class='gamepad-interface-player-osd-fill'></div>
+				</div>
+				<span class='gamepad-interface-player-osd-remaining'></span>
+			</div>
+		`;
+		this.parent.append(this.element);
+	}
+
+	hide(): void {
+		this.element?.remove();
+		this.element = null;
+	}
+
+	render(): void {
+		if (!this.element || !this.state) return;
+		const { currentTime, duration, isPaused, isMuted, volume } = this.state;
+		const query = (name: string) =>
+			this.element?.querySelector(
+				`.gamepad-interface-player-osd-${name}`,
+			) as HTMLElement;
+		const progress = duration > 0 ? (currentTime / duration) * 100 : 0;
+		query("fill").style.width = `${progress}%`;
+		query("elapsed").textContent = formatTime(currentTime);
+		query("remaining").textContent =
+			`-${formatTime(Math.max(duration - currentTime, 0))}`;
+		query("paused").style.visibility = isPaused ? "visible" : "hidden";
+		query("volume-label").textContent = isMuted
+			? "Muted"
+			: `Volume ${Math.round(volume * 100)}%`;
+		query("volume-fill").style.width = `${isMuted ? 0 : volume * 100}%`;
+	}
+}
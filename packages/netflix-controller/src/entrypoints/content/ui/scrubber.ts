@@ -0,0 +1,221 @@
+import { formatTime } from "../../../utils/format-time.ts";
+
+// standard mapping axis for the right stick's horizontal movement
+const RIGHT_STICK_X_AXIS = 2;
+const STICK_DEAD_ZONE = 0.25;
+const TRIGGER_DEAD_ZONE = 0.05;
+// seek speed in seconds per second at full deflection
+const MAX_SCRUB_RATE = 300;
+// input must stay released this long before the target is committed
+const RELEASE_DELAY = 150;
+
+export interface ScrubPosition {
+	currentTime: number;
+	duration: number;
+}
+
+// buttons whose analog value rewinds and fast forwards
+export interface ScrubButtons {
+	back: number;
+	forward: number;
+}
+
+export interface ScrubberDelegate {
+	// whether scrubbing may start, e.g. false while an overlay has focus
+	canScrub(): boolean;
+	// the buttons currently bound to the scrub actions
+	getScrubButtons(): ScrubButtons;
+	// pauses playback and resolves the position to scrub from
+	onScrubStart(): Promise<ScrubPosition | null>;
+	onScrubCommit(timeMs: number): void;
+}
+
+function applyDeadZone(value: number, deadZone: number): number {
+	if (Math.abs(value) < deadZone) {
+		return 0;
+	}
+	return (Math.sign(value) * (Math.abs(value) - deadZone)) / (1 - deadZone);
+}
+
+/**
+ * Reads the scrub input of the primary gamepad in the range -1 to 1. The
+ * scrub buttons, the triggers by default, rewind and fast forward, as does
+ * the right stick's x axis.
+ */
+function readScrubInput(
+	gamepad: Gamepad | null,
+	buttons: ScrubButtons,
+): number {
+	if (!gamepad) {
+		return 0;
+	}
+	const triggers = applyDeadZone(
+		(gamepad.buttons[buttons.forward]?.value ?? 0) -
+			(gamepad.buttons[buttons.back]?.value ?? 0),
+		TRIGGER_DEAD_ZONE,
+	);
+	const stick = applyDeadZone(
+		gamepad.axes[RIGHT_STICK_X_AXIS] ?? 0,
+		STICK_DEAD_ZONE,
+	);
+	return Math.abs(triggers) > Math.abs(stick) ? triggers : stick;
+}
+
+/**
+ * Variable-speed seeking driven by the analog triggers or the right stick.
+ * While input is held a cursor moves along an on-screen timeline; releasing
+ * the input commits the target position with a single seek.
+ */
+export class TimelineScrubber {
+	parent: Element;
+	delegate: ScrubberDelegate;
+	element: HTMLElement | null;
+	position: ScrubPosition | null;
+	target: number;
+	starting: boolean;
+	frameId: number | null;
+	lastFrame: number | null;
+	releasedAt: number | null;
+
+	constructor(parent: Element, delegate: ScrubberDelegate) {
+		this.parent = parent;
+		this.delegate = delegate;
+		this.element = null;
+		this.position = null;
+		this.target = 0;
+		this.starting = false;
+		this.frameId = null;
+		this.lastFrame = null;
+		this.releasedAt = null;
+	}
+
+	start(): void {
+		if (this.frameId === null) {
+			this.frameId = window.requestAnimationFrame((t) => this.tick(t));
+		}
+	}
+
+	stop(): void {
+		if (this.frameId !== null) {
+			window.cancelAnimationFrame(this.frameId);
+			this.frameId = null;
+		}
+		this.hide();
+		this.position = null;
+		this.starting = false;
+	}
+
+	isScrubbing(): boolean {
+		return this.starting || this.position !== null;
+	}
+
+	async begin(): Promise<void> {
+		if (this.isScrubbing() || !this.delegate.canScrub()) {
+			return;
+		}
+		this.starting = true;
+		const position = await this.delegate.onScrubStart();
+		if (!this.starting) {
+			return; // stopped while waiting for the player
+		}
+		this.starting = false;
+		if (position) {
+			this.position = position;
+			this.target = position.currentTime;
+			this.releasedAt = null;
+			this.show();
+		}
+	}
+
+	tick(timestamp: number): void {
+		const elapsed = this.lastFrame !== null ? timestamp - this.lastFrame : 0;
+		this.lastFrame = timestamp;
+		const input = this.delegate.canScrub()
+			? readScrubInput(
+					window.getActiveGamepad?.() ?? null,
+					this.delegate.getScrubButtons(),
+				)
+			: 0;
+
+		if (input !== 0) {
+			this.releasedAt = null;
+			if (!this.isScrubbing()) {
+				this.begin();
+			} else if (this.position) {
+				this.move(input, elapsed);
+			}
+		} else if (this.position) {
+			if (this.releasedAt === null) {
+				this.releasedAt = timestamp;
+			} else if (timestamp - this.releasedAt >= RELEASE_DELAY) {
+				this.commit();
+			}
+		}
+		this.frameId = window.requestAnimationFrame((t) => this.tick(t));
+	}
+
+	move(input: number, elapsed: number): void {
+		if (!this.position) return;
+		// squared response gives fine control near the dead zone
+		const rate = MAX_SCRUB_RATE * input * Math.abs(input);
+		this.target = Math.min(
+			Math.max(this.target + rate * elapsed, 0),
+			this.position.duration,
+		);
+		this.render();
+	}
+
+	commit(): void {
+		const target = this.target;
+		this.position = null;
+		this.hide();
+		this.delegate.onScrubCommit(target);
+	}
+
+	show(): void {
+		if (!this.element) {
+			this.element = document.createElement("div");
+			this.element.id = "gamepad-interface-scrubber";
+			this.element.innerHTML = `
+				<div class='gamepad-interface-scrubber-time'></div>
+				<div class='gamepad-interface-scrubber-track'>
+					<div class='gamepad-interface-scrubber-fill'></div>
+					<div class='gamepad-interface-scrubber-origin'></div>
+					<div class='gamepad-interface-scrubber-cursor'></div>
+				</div>
+			`;
+			this.parent.append(this.element);
+		}
+		this.render();
+	}
+
+	hide(): void {
+		this.element?.remove();
+		this.element = null;
+	}
+
+	render(): void {
+		if (!this.element || !this.position) return;
+		const { currentTime, duration } = this.position;
+		const toPercent = (time: number) =>
+			`${duration > 0 ? (time / duration) * 100 : 0}%`;
+		const fill = this.element.querySelector(
+			".gamepad-interface-scrubber-fill",
+		) as HTMLElement;
+		const origin = this.element.querySelector(
+			".gamepad-interface-scrubber-origin",
+		) as HTMLElement;
+		const cursor = this.element.querySelector(
+			".gamepad-interface-scrubber-cursor",
+		) as HTMLElement;
+		const time = this.element.querySelector(
+			".gamepad-interface-scrubber-time",
+		) as HTMLElement;
+		fill.style.width = toPercent(this.target);
+		origin.style.left = toPercent(currentTime);
+		cursor.style.left = toPercent(this.target);
+		const delta = this.target - currentTime;
+		const sign = delta < 0 ? "-" : "+";
+		time.textContent = `${formatTime(this.target)} / ${formatTime(duration)} (${sign}${formatTime(Math.abs(delta))})`;
+	}
+}
@@ -0,0 +1,181 @@
+// sessionStorage is per tab and survives the reloads between episodes
+const STORAGE_KEY = "gamepad-interface-sleep-timer";
+// the volume fades out over the final stretch before playback pauses
+const FADE_DURATION = 30000;
+const FADE_STEPS = 15;
+
+export const SLEEP_TIMER_MINUTES = [15, 30, 60];
+
+// either a wall clock deadline or the end of the episode it was set on
+interface SleepTimerState {
+	endsAt?: number;
+	minutes?: number;
+	episodeId?: string;
+}
+
+export interface SleepTimerDelegate {
+	// id of the episode currently playing
+	getEpisodeId(): string | null;
+	// playback time left until the current episode ends, in milliseconds
+	getEpisodeRemaining(): Promise<number | null>;
+	getVolume(): Promise<number | null>;
+	volumeDown(delta: number): Promise<void>;
+	volumeUp(delta: number): Promise<void>;
+	pause(): Promise<void>;
+}
+
+/**
+ * Pauses playback after a number of minutes or at the end of the current
+ * episode, fading the volume out first. The timer is kept for the lifetime
+ * of the tab so it keeps running when the next episode loads. The faded
+ * volume comes back once playback resumes, so it does not jump up as
+ * playback pauses.
+ */
+export class SleepTimer {
+	delegate: SleepTimerDelegate;
+	state: SleepTimerState | null;
+	fading: boolean;
+	// volume taken away by the fade and not restored yet
+	faded: number;
+	fadeTimeoutId: number | null;
+	// ends the wait between fade steps early
+	stopWaiting: (() => void) | null;
+	disposed: boolean;
+
+	constructor(delegate: SleepTimerDelegate) {
+		this.delegate = delegate;
+		this.state = SleepTimer.load();
+		this.fading = false;
+		this.faded = 0;
+		this.fadeTimeoutId = null;
+		this.stopWaiting = null;
+		this.disposed = false;
+	}
+
+	static load(): SleepTimerState | null {
+		try {
+			const stored = window.sessionStorage.getItem(STORAGE_KEY);
+			return stored ? (JSON.parse(stored) as SleepTimerState) : null;
+		} catch {
+			return null;
+		}
+	}
+
+	save(): void {
+		if (this.state) {
+			window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(this.state));
+		} else {
+			window.sessionStorage.removeItem(STORAGE_KEY);
+		}
+	}
+
+	isActive(): boolean {
+		return this.state !== null;
+	}
+
+	isEndOfEpisode(): boolean {
+		return this.state?.episodeId !== undefined;
+	}
+
+	getMinutes(): number | null {
+		return this.state?.minutes ?? null;
+	}
+
+	setMinutes(minutes: number): void {
+		this.state = { endsAt: Date.now() + minutes * 60000, minutes };
+		this.save();
+	}
+
+	setEndOfEpisode(): void {
+		const episodeId = this.delegate.getEpisodeId();
+		this.state = episodeId ? { episodeId } : null;
+		this.save();
+	}
+
+	cancel(): void {
+		this.state = null;
+		this.save();
+		this.stopWaiting?.();
+	}
+
+	async getRemaining(): Promise<number | null> {
+		if (!this.state) return null;
+		if (this.state.endsAt !== undefined) {
+			return Math.max(this.state.endsAt - Date.now(), 0);
+		}
+		if (this.state.episodeId !== this.delegate.getEpisodeId()) {
+			return 0; // the episode already ended and the next one started
+		}
+		const remaining = await this.delegate.getEpisodeRemaining();
+		return remaining === null ? null : Math.max(remaining, 0);
+	}
+
+	// called periodically while a video is playing
+	async check(): Promise<void> {
+		if (this.fading || this.disposed) return;
+		// playback was resumed after the timer paused it
+		await this.restoreVolume();
+		const remaining = await this.getRemaining();
+		if (remaining !== null && remaining <= FADE_DURATION) {
+			await this.fade(remaining);
+		}
+	}
+
+	isFadeStopped(): boolean {
+		return this.disposed || !this.state;
+	}
+
+	async fade(duration: number): Promise<void> {
+		const volume = await this.delegate.getVolume();
+		if (volume === null || this.fading || this.disposed) return;
+		this.fading = true;
+		const step = volume / FADE_STEPS;
+		for (let i = 0; i < FADE_STEPS && !this.isFadeStopped(); i++) {
+			await this.delegate.volumeDown(step);
+			this.faded += step;
+			await this.wait(duration / FADE_STEPS);
+		}
+		this.fading = false;
+		if (this.isFadeStopped()) {
+			// cancelled during the fade, playback goes on at full volume
+			await this.restoreVolume();
+			return;
+		}
+		console.log("[SLEEP-TIMER] Pausing playback");
+		await this.delegate.pause();
+		this.cancel();
+	}
+
+	wait(duration: number): Promise<void> {
+		if (this.isFadeStopped()) return Promise.resolve();
+		return new Promise((resolve) => {
+			this.stopWaiting = () => {
+				if (this.fadeTimeoutId !== null) {
+					window.clearTimeout(this.fadeTimeoutId);
+					this.fadeTimeoutId = null;
+				}
+				this.stopWaiting = null;
+				resolve();
+			};
+			this.fadeTimeoutId = window.setTimeout(() => {
+				this.fadeTimeoutId = null;
+				this.stopWaiting?.();
+			}, duration);
+		});
+	}
+
+	// the only place the faded volume is given back
+	async restoreVolume(): Promise<void> {
+		const faded = this.faded;
+		if (faded <= 0) return;
+		this.faded = 0;
+		await this.delegate.volumeUp(faded);
+	}
+
+	// stops a running fade for good, e.g. when the page unloads
+	dispose(): void {
+		this.disposed = true;
+		this.stopWaiting?.();
+		this.restoreVolume();
+	}
+}
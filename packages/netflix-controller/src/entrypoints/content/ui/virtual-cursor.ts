@@ -0,0 +1,219 @@
+import { GAMEPAD_BUTTONS } from "@ribajs/gamecontroller.js";
+import type { NavigationAction } from "../../../types/components";
+import { DIRECTION } from "../components/direction.ts";
+import { Navigatable } from "../components/navigatable.ts";
+
+// standard mapping axes of the right stick
+const RIGHT_STICK_X_AXIS = 2;
+const RIGHT_STICK_Y_AXIS = 3;
+const STICK_DEAD_ZONE = 0.2;
+const TRIGGER_DEAD_ZONE = 0.05;
+// cursor speed in pixels per second at full deflection
+const MAX_CURSOR_SPEED = 1500;
+// scroll speed in pixels per second with a trigger fully pressed
+const MAX_SCROLL_SPEED = 2000;
+// distance the cursor moves for each d-pad or left stick press
+const DIRECTION_STEP = 40;
+
+function applyDeadZone(value: number, deadZone: number): number {
+	if (Math.abs(value) < deadZone) {
+		return 0;
+	}
+	return (Math.sign(value) * (Math.abs(value) - deadZone)) / (1 - deadZone);
+}
+
+// right stick deflection and trigger difference of the primary gamepad
+function readCursorInput(gamepad: Gamepad | null): {
+	x: number;
+	y: number;
+	scroll: number;
+} {
+	if (!gamepad) {
+		return { x: 0, y: 0, scroll: 0 };
+	}
+	return {
+		x: applyDeadZone(gamepad.axes[RIGHT_STICK_X_AXIS] ?? 0, STICK_DEAD_ZONE),
+		y: applyDeadZone(gamepad.axes[RIGHT_STICK_Y_AXIS] ?? 0, STICK_DEAD_ZONE),
+		scroll: applyDeadZone(
+			(gamepad.buttons[GAMEPAD_BUTTONS.TRIGGER_RIGHT]?.value ?? 0) -
+				(gamepad.buttons[GAMEPAD_BUTTONS.TRIGGER_LEFT]?.value ?? 0),
+			TRIGGER_DEAD_ZONE,
+		),
+	};
+}
+
+// nearest ancestor that can scroll vertically, so modals scroll themselves
+function getScrollContainer(element: Element | null): Element | null {
+	for (let node = element; node; node = node.parentElement) {
+		const overflowY = window.getComputedStyle(node).overflowY;
+		if (
+			(overflowY === "auto" || overflowY === "scroll") &&
+			node.scrollHeight > node.clientHeight
+		) {
+			return node;
+		}
+	}
+	return null;
+}
+
+/**
+ * A mouse cursor drawn over the page and moved with the right stick, for
+ * elements that focus navigation does not reach. Hovering dispatches mouse
+ * events to the element under the cursor and the triggers scroll.
+ */
+export class VirtualCursor {
+	isInputEnabled: () => boolean;
+	// only the primary controller moves the cursor
+	getGamepad: () => Gamepad | null;
+	element: HTMLElement | null;
+	x: number;
+	y: number;
+	hovered: Element | null;
+	frameId: number | null;
+	lastFrame: number | null;
+
+	constructor(isInputEnabled: () => boolean, getGamepad: () => Gamepad | null) {
+		this.isInputEnabled = isInputEnabled;
+		this.getGamepad = getGamepad;
+		this.element = null;
+		this.x = window.innerWidth / 2;
+		this.y = window.innerHeight / 2;
+		this.hovered = null;
+		this.frameId = null;
+		this.lastFrame = null;
+	}
+
+	isActive(): boolean {
+		return this.element !== null;
+	}
+
+	show(): void {
+		if (this.element) return;
+		this.element = document.createElement("div");
+		this.element.id = "gamepad-interface-virtual-cursor";
+		// only the fullscreen element's subtree is visible in fullscreen
+		(document.fullscreenElement ?? document.body).append(this.element);
+		this.lastFrame = null;
+		this.frameId = window.requestAnimationFrame((t) => this.tick(t));
+		this.render();
+		this.hover();
+	}
+
+	hide(): void {
+		if (this.frameId !== null) {
+			window.cancelAnimationFrame(this.frameId);
+			this.frameId = null;
+		}
+		if (this.hovered) {
+			Navigatable.mouseOut(this.hovered);
+			this.hovered = null;
+		}
+		this.element?.remove();
+		this.element = null;
+	}
+
+	tick(timestamp: number): void {
+		const elapsed =
+			this.lastFrame !== null ? (timestamp - this.lastFrame) / 1000 : 0;
+		this.lastFrame = timestamp;
+		if (this.isInputEnabled()) {
+			const input = readCursorInput(this.getGamepad());
+			if (input.x !== 0 || input.y !== 0) {
+				// squared response gives fine control near the dead zone
+				this.moveBy(
+					MAX_CURSOR_SPEED * input.x * Math.abs(input.x) * elapsed,
+					MAX_CURSOR_SPEED * input.y * Math.abs(input.y) * elapsed,
+				);
+			}
+			if (input.scroll !== 0) {
+				this.scroll(MAX_SCROLL_SPEED * input.scroll * elapsed);
+			}
+		}
+		this.frameId = window.requestAnimationFrame((t) => this.tick(t));
+	}
+
+	moveBy(dx: number, dy: number): void {
+		this.x = Math.min(Math.max(this.x + dx, 0), window.innerWidth - 1);
+		this.y = Math.min(Math.max(this.y + dy, 0), window.innerHeight - 1);
+		this.render();
+		this.hover();
+	}
+
+	render(): void {
+		if (this.element) {
+			this.element.style.transform = `translate(${this.x}px, ${this.y}px)`;
+		}
+	}
+
+	getTarget(): Element | null {
+		return document.elementFromPoint(this.x, this.y);
+	}
+
+	hover(): void {
+		const target = this.getTarget();
+		if (target === this.hovered) return;
+		if (this.hovered) {
+			Navigatable.mouseOut(this.hovered);
+		}
+		this.hovered = target;
+		if (target) {
+			Navigatable.mouseOver(target);
+		}
+	}
+
+	scroll(dy: number): void {
+		const container = getScrollContainer(this.getTarget());
+		if (container) {
+			container.scrollBy(0, dy);
+		} else {
+			window.scrollBy(0, dy);
+		}
+		this.hover();
+	}
+
+	click(): void {
+		const target = this.getTarget();
+		if (!target) return;
+		const init = {
+			bubbles: true,
+			cancelable: true,
+			clientX: this.x,
+			clientY: this.y,
+		};
+		target.dispatchEvent(new MouseEvent("mousedown", init));
+		if (target instanceof HTMLElement) {
+			target.focus();
+		}
+		target.dispatchEvent(new MouseEvent("mouseup", init));
+		target.dispatchEvent(new MouseEvent("click", init));
+	}
+
+	onDirectionAction(direction: number): void {
+		if (direction === DIRECTION.UP) {
+			this.moveBy(0, -DIRECTION_STEP);
+		} else if (direction === DIRECTION.DOWN) {
+			this.moveBy(0, DIRECTION_STEP);
+		} else if (direction === DIRECTION.LEFT) {
+			this.moveBy(-DIRECTION_STEP, 0);
+		} else if (direction === DIRECTION.RIGHT) {
+			this.moveBy(DIRECTION_STEP, 0);
+		}
+	}
+
+	getActions(): NavigationAction[] {
+		return [
+			{
+				label: "Click",
+				index: GAMEPAD_BUTTONS.BUTTON_BOTTOM,
+				id: "cursorClick",
+				onPress: () => this.click(),
+			},
+			{
+				// scrolling is analog and read every frame; this only shows the hint
+				label: "Scroll",
+				index: GAMEPAD_BUTTONS.TRIGGER_RIGHT,
+				onPress: () => {},
+			},
+		];
+	}
+}
@@ -152,11 +152,13 @@ export class VirtualKeyboard {
 		}
 	}
 
+	/** @returns {import("../../../types/components").NavigationAction[]} */
 	getActions() {
 		return [
 			{
 				label: "Space",
 				index: GAMEPAD_BUTTONS.BUTTON_TOP,
+				id: "keyboardSpace",
 				onPress: () => {
 					this.insertSpace();
 					this.pressKey("space");
@@ -168,6 +170,7 @@ export class VirtualKeyboard {
 			{
 				label: "Insert",
 				index: GAMEPAD_BUTTONS.BUTTON_BOTTOM,
+				id: "keyboardInsert",
 				onPress: () => {
 					this.insert();
 					this.pressKey(this.selected);
@@ -179,6 +182,7 @@ export class VirtualKeyboard {
 			{
 				label: "Backspace",
 				index: GAMEPAD_BUTTONS.BUTTON_RIGHT,
+				id: "keyboardBackspace",
 				onPress: () => {
 					this.backspace();
 					this.pressKey(BACKSPACE);
@@ -190,6 +194,7 @@ export class VirtualKeyboard {
 			{
 				label: "Shift",
 				index: GAMEPAD_BUTTONS.BUTTON_LEFT,
+				id: "keyboardShift",
 				onPress: () => {
 					this.toggleShift();
 					this.pressKey(SHIFT);
@@ -201,6 +206,7 @@ export class VirtualKeyboard {
 			{
 				label: "Close",
 				index: GAMEPAD_BUTTONS.BUTTON_CONTROL_RIGHT,
+				id: "keyboardClose",
 				onPress: () => {
 					this.close();
 					this.pressKey("close");
@@ -212,6 +218,7 @@ export class VirtualKeyboard {
 			{
 				label: "Clear",
 				index: GAMEPAD_BUTTONS.BUTTON_CONTROL_LEFT,
+				id: "keyboardClear",
 				onPress: () => {
 					this.clear();
 				},
@@ -232,6 +239,8 @@ export class VirtualKeyboard {
 		const key = this.getAdjacentKey(direction);
 		if (key) {
 			this.select(key);
+		} else {
+			window.rumble?.("edge"); // edge of the keyboard
 		}
 	}
 
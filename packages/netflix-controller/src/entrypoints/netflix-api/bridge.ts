@@ -0,0 +1,256 @@
+/**
+ * Main world end of the content script bridge.
+ * Only the allow-listed commands below can be called, and only with the
+ * session secret proven by the content script's handshake.
+ * Player events are pushed through the same channel once subscribed to.
+ */
+
+import {
+	BRIDGE_HANDSHAKE_TYPE,
+	BRIDGE_PROTOCOL_VERSION,
+	type BridgeArgs,
+	type BridgeCommand,
+	type BridgeError,
+	type BridgeEventMessage,
+	type BridgeEventName,
+	type BridgeEvents,
+	type BridgeHandshake,
+	type BridgeHandshakeReply,
+	type BridgeRequest,
+	type BridgeResponse,
+} from "../../types/bridge";
+import { BridgeChannel, getBridgeKey } from "../../utils/bridge-channel.ts";
+import { getSessionInfo } from "./debug";
+import {
+	getEpisodeInfo,
+	getPlaybackRate,
+	getPlaybackStatus,
+	getSkipSegments,
+	getTracks,
+	NO_PLAYER_ERROR,
+	nextEpisode,
+	previousEpisode,
+	seekBackward,
+	seekForward,
+	seekTo,
+	setAudioTrack,
+	setPaused,
+	setPlaybackRate,
+	setTextTrack,
+	toggleMute,
+	togglePlayPause,
+	volumeDown,
+	volumeUp,
+} from "./player-controls";
+import { observePlayerEvents } from "./player-events";
+
+// status fields reported by the player control functions
+interface CommandStatus {
+	success?: boolean;
+	error?: string;
+	[key: string]: unknown;
+}
+
+const EVENT_NAMES: BridgeEventName[] = [
+	"play",
+	"pause",
+	"timeupdate",
+	"volumechange",
+	"ended",
+	"sessioncreated",
+	"sessiondestroyed",
+];
+
+const subscriptions = new Set<BridgeEventName>();
+
+function setSubscribed(event: BridgeEventName, subscribed: boolean) {
+	if (!EVENT_NAMES.includes(event)) {
+		return { success: false, error: `Unknown event: ${String(event)}` };
+	}
+	if (subscribed) {
+		subscriptions.add(event);
+	} else {
+		subscriptions.delete(event);
+	}
+	return { success: true };
+}
+
+const COMMANDS: {
+	[C in BridgeCommand]: (...args: BridgeArgs<C>) => CommandStatus | null;
+} = {
+	togglePlayPause,
+	setPaused,
+	toggleMute,
+	seekForward,
+	seekBackward,
+	seekTo,
+	volumeUp,
+	volumeDown,
+	getPlaybackRate,
+	setPlaybackRate,
+	getPlaybackStatus,
+	getSessionInfo,
+	getSkipSegments,
+	getEpisodeInfo,
+	nextEpisode,
+	previousEpisode,
+	getTracks,
+	setAudioTrack,
+	setTextTrack,
+	subscribe: (event) => setSubscribed(event, true),
+	unsubscribe: (event) => setSubscribed(event, false),
+};
+
+function isCommand(command: unknown): command is BridgeCommand {
+	return typeof command === "string" && Object.hasOwn(COMMANDS, command);
+}
+
+function execute(request: BridgeRequest): BridgeResponse {
+	const { id, secret, command, args } = request;
+	const fail = (error: BridgeError): BridgeResponse => ({
+		id,
+		secret,
+		ok: false,
+		error,
+	});
+
+	if (!isCommand(command)) {
+		return fail({
+			code: "UNKNOWN_COMMAND",
+			message: `Unknown command: ${String(command)}`,
+		});
+	}
+	try {
+		const handler = COMMANDS[command] as (
+			...args: unknown[]
+		) => CommandStatus | null;
+		const status = handler(...(Array.isArray(args) ? args : []));
+		if (status === null || status.error === NO_PLAYER_ERROR) {
+			return fail({ code: "NO_PLAYER", message: NO_PLAYER_ERROR });
+		}
+		if (status.success === false) {
+			return fail({
+				code: "EXECUTION_FAILED",
+				message: status.error ?? `${command} failed`,
+			});
+		}
+		const { success: _success, error: _error, ...result } = status;
+		return { id, secret, ok: true, result } as BridgeResponse;
+	} catch (error) {
+		console.error("[NETFLIX-BRIDGE] Error executing command:", command, error);
+		return fail({ code: "EXECUTION_FAILED", message: String(error) });
+	}
+}
+
+function onRequest(
+	channel: BridgeChannel,
+	secret: string,
+	data: unknown,
+): void {
+	const request = data as Partial<BridgeRequest>;
+	if (typeof request?.id !== "number") return;
+	if (request.secret !== secret) {
+		// echo nothing of the wrong secret back
+		channel.postMessage({
+			id: request.id,
+			secret: "",
+			ok: false,
+			error: { code: "UNAUTHORIZED", message: "Invalid session secret" },
+		} satisfies BridgeResponse);
+		return;
+	}
+	if (request.version !== BRIDGE_PROTOCOL_VERSION) {
+		channel.postMessage({
+			id: request.id,
+			secret,
+			ok: false,
+			error: {
+				code: "VERSION_MISMATCH",
+				message: `Expected protocol version ${BRIDGE_PROTOCOL_VERSION}`,
+			},
+		} satisfies BridgeResponse);
+		return;
+	}
+	console.log("[NETFLIX-COMMAND]", request.command, request.args);
+	channel.postMessage(execute(request as BridgeRequest));
+}
+
+/**
+ * Answers handshakes and requests on the channel named after the session key
+ * the content script gave the injected script. Only a handshake carrying the
+ * secret behind the key connects, and only once; replies echo the secret of
+ * the handshake so the content script can tell them from forged ones.
+ */
+export function listenForBridge(key: string): void {
+	const channel = new BridgeChannel(key, "main");
+	let secret: string | null = null;
+	// messages are handled in order, though checking a handshake takes a digest
+	let queue = Promise.resolve();
+
+	const reject = (handshake: Partial<BridgeHandshake>, error: BridgeError) =>
+		channel.postMessage({
+			type: "rejected",
+			secret: typeof handshake.secret === "string" ? handshake.secret : "",
+			error,
+		} satisfies BridgeHandshakeReply);
+
+	const onHandshake = async (handshake: Partial<BridgeHandshake>) => {
+		if (secret !== null) {
+			reject(handshake, {
+				code: "ALREADY_CONNECTED",
+				message: "The bridge is already connected",
+			});
+			return;
+		}
+		if (
+			typeof handshake.secret !== "string" ||
+			(await getBridgeKey(handshake.secret)) !== key
+		) {
+			reject(handshake, {
+				code: "UNAUTHORIZED",
+				message: "The secret does not match the session key",
+			});
+			return;
+		}
+		if (handshake.version !== BRIDGE_PROTOCOL_VERSION) {
+			reject(handshake, {
+				code: "VERSION_MISMATCH",
+				message: `Expected protocol version ${BRIDGE_PROTOCOL_VERSION}, got ${handshake.version}`,
+			});
+			return;
+		}
+
+		// the content script owns the bridge for the rest of the page session
+		const sessionSecret = handshake.secret;
+		secret = sessionSecret;
+		observePlayerEvents(
+			<E extends BridgeEventName>(event: E, data: BridgeEvents[E]) => {
+				if (subscriptions.has(event)) {
+					channel.postMessage({
+						type: "event",
+						secret: sessionSecret,
+						event,
+						data,
+					} satisfies BridgeEventMessage<E>);
+				}
+			},
+		);
+		channel.postMessage({
+			type: "ready",
+			secret: sessionSecret,
+			version: BRIDGE_PROTOCOL_VERSION,
+		} satisfies BridgeHandshakeReply);
+		console.log("[NETFLIX-BRIDGE] Content script connected");
+	};
+
+	channel.onmessage = (data: unknown) => {
+		queue = queue.then(async () => {
+			const handshake = data as Partial<BridgeHandshake>;
+			if (handshake?.type === BRIDGE_HANDSHAKE_TYPE) {
+				await onHandshake(handshake);
+			} else if (secret !== null) {
+				onRequest(channel, secret, data);
+			}
+		});
+	};
+}
@@ -3,6 +3,9 @@
  * Provides clean, reusable methods for controlling Netflix video playback
  */
 
+// Error reported by every command when there is no active video player
+export const NO_PLAYER_ERROR = "No player available";
+
 // Helper function to get the active Netflix video player
 export function getPlayer(): NetflixVideoPlayer | null {
 	const api = window.netflix?.appContext?.state?.playerApp?.getAPI();
@@ -38,7 +41,7 @@ export function togglePlayPause(): {
 	action?: string;
 } {
 	const player = getPlayer();
-	if (!player) return { success: false, error: "No player available" };
+	if (!player) return { success: false, error: NO_PLAYER_ERROR };
 
 	try {
 		if (player.isPaused()) {
@@ -54,13 +57,34 @@ export function togglePlayPause(): {
 	}
 }
 
+export function setPaused(paused: boolean): {
+	success: boolean;
+	error?: string;
+	action?: string;
+} {
+	const player = getPlayer();
+	if (!player) return { success: false, error: NO_PLAYER_ERROR };
+
+	try {
+		if (paused) {
+			player.pause();
+		} else {
+			player.play();
+		}
+		return { action: paused ? "pause" : "play", success: true };
+	} catch (error) {
+		console.error("[NETFLIX-API] Error in setPaused:", error);
+		return { success: false, error: String(error) };
+	}
+}
+
 export function toggleMute(): {
 	success: boolean;
 	error?: string;
 	action?: string;
 } {
 	const player = getPlayer();
-	if (!player) return { success: false, error: "No player available" };
+	if (!player) return { success: false, error: NO_PLAYER_ERROR };
 
 	try {
 		const wasMuted = player.isMuted();
@@ -79,7 +103,7 @@ export function seekForward(seconds: number = 10): {
 	newTime?: number;
 } {
 	const player = getPlayer();
-	if (!player) return { success: false, error: "No player available" };
+	if (!player) return { success: false, error: NO_PLAYER_ERROR };
 
 	try {
 		const currentTime = player.getCurrentTime();
@@ -100,7 +124,7 @@ export function seekBackward(seconds: number = 10): {
 	newTime?: number;
 } {
 	const player = getPlayer();
-	if (!player) return { success: false, error: "No player available" };
+	if (!player) return { success: false, error: NO_PLAYER_ERROR };
 
 	try {
 		const currentTime = player.getCurrentTime();
@@ -113,6 +137,26 @@ export function seekBackward(seconds: number = 10): {
 	}
 }
 
+export function seekTo(timeMs: number): {
+	success: boolean;
+	error?: string;
+	action?: string;
+	newTime?: number;
+} {
+	const player = getPlayer();
+	if (!player) return { success: false, error: NO_PLAYER_ERROR };
+
+	try {
+		const duration = player.getDuration();
+		const newTime = Math.min(Math.max(timeMs, 0), duration);
+		player.seek(newTime);
+		return { action: "seek", newTime, success: true };
+	} catch (error) {
+		console.error("[NETFLIX-API] Error in seekTo:", error);
+		return { success: false, error: String(error) };
+	}
+}
+
 export function volumeUp(delta: number = 0.1): {
 	success: boolean;
 	error?: string;
@@ -120,7 +164,7 @@ export function volumeUp(delta: number = 0.1): {
 	newVolume?: number;
 } {
 	const player = getPlayer();
-	if (!player) return { success: false, error: "No player available" };
+	if (!player) return { success: false, error: NO_PLAYER_ERROR };
 
 	try {
 		const currentVolume = player.getVolume();
@@ -140,7 +184,7 @@ export function volumeDown(delta: number = 0.1): {
 	newVolume?: number;
 } {
 	const player = getPlayer();
-	if (!player) return { success: false, error: "No player available" };
+	if (!player) return { success: false, error: NO_PLAYER_ERROR };
 
 	try {
 		const currentVolume = player.getVolume();
@@ -153,6 +197,53 @@ export function volumeDown(delta: number = 0.1): {
 	}
 }
 
+// ===== PLAYBACK RATE =====
+
+// The player API does not always expose a rate, the <video> element always does
+function getVideoElement(): HTMLVideoElement | null {
+	return document.querySelector("video");
+}
+
+export function getPlaybackRate(): {
+	success: boolean;
+	error?: string;
+	rate?: number;
+} {
+	const player = getPlayer();
+	try {
+		const rate = player?.getPlaybackRate?.() ?? getVideoElement()?.playbackRate;
+		if (typeof rate !== "number") {
+			return { success: false, error: NO_PLAYER_ERROR };
+		}
+		return { success: true, rate };
+	} catch (error) {
+		console.error("[NETFLIX-API] Error in getPlaybackRate:", error);
+		return { success: false, error: String(error) };
+	}
+}
+
+export function setPlaybackRate(rate: number): {
+	success: boolean;
+	error?: string;
+	action?: string;
+	rate?: number;
+} {
+	const player = getPlayer();
+	try {
+		if (player?.setPlaybackRate) {
+			player.setPlaybackRate(rate);
+		} else {
+			const video = getVideoElement();
+			if (!video) return { success: false, error: NO_PLAYER_ERROR };
+			video.playbackRate = rate;
+		}
+		return { action: "rate", rate, success: true };
+	} catch (error) {
+		console.error("[NETFLIX-API] Error in setPlaybackRate:", error);
+		return { success: false, error: String(error) };
+	}
+}
+
 // ===== STATUS CHECK FUNCTIONS =====
 
 export function getPlaybackStatus(): {
@@ -162,7 +253,7 @@ export function getPlaybackStatus(): {
 	error?: string;
 } {
 	const player = getPlayer();
-	if (!player) return { success: false, error: "No player available" };
+	if (!player) return { success: false, error: NO_PLAYER_ERROR };
 
 	try {
 		const isPaused = player.isPaused();
@@ -173,3 +264,295 @@ export function getPlaybackStatus(): {
 		return { success: false, error: String(error) };
 	}
 }
+
+// ===== SKIP SEGMENTS =====
+
+export interface SkipSegment {
+	start: number;
+	end: number;
+}
+
+// Timecodes are either a { start, end } range or a single start offset (ending credits)
+function toSkipSegment(
+	timecode: unknown,
+	fallbackEnd: number,
+): SkipSegment | undefined {
+	if (typeof timecode === "number" && timecode > 0) {
+		return { start: timecode, end: fallbackEnd };
+	}
+	if (timecode && typeof timecode === "object") {
+		const { start, end } = timecode as { start?: unknown; end?: unknown };
+		if (typeof start === "number" && typeof end === "number" && end > start) {
+			return { start, end };
+		}
+	}
+	return undefined;
+}
+
+export function getSkipSegments(): {
+	success: boolean;
+	error?: string;
+	currentTime?: number;
+	duration?: number;
+	intro?: SkipSegment;
+	recap?: SkipSegment;
+	credits?: SkipSegment;
+} {
+	const player = getPlayer();
+	if (!player) return { success: false, error: NO_PLAYER_ERROR };
+
+	try {
+		const api = window.netflix?.appContext?.state?.playerApp?.getAPI();
+		const duration = player.getDuration();
+		// Netflix names the opening credits "skip credits"; the ending timecode marks the closing credits
+		return {
+			success: true,
+			currentTime: player.getCurrentTime(),
+			duration,
+			intro: toSkipSegment(api?.getTimecodeSkipCredits?.()?.(), duration),
+			recap: toSkipSegment(api?.getTimecodeRecap?.()?.(), duration),
+			credits: toSkipSegment(api?.getTimecodeEnding?.()?.(), duration),
+		};
+	} catch (error) {
+		console.error("[NETFLIX-API] Error getting skip segments:", error);
+		return { success: false, error: String(error) };
+	}
+}
+
+// ===== EPISODE NAVIGATION =====
+
+const NEXT_EPISODE_CONTROL_SELECTOR = 'button[data-uia="control-next"]';
+
+function clickControl(selector: string): boolean {
+	const control = document.querySelector(selector) as HTMLElement | null;
+	control?.click();
+	return control !== null;
+}
+
+/**
+ * Switches the player to another episode through the player app, or with the
+ * player's own control for it. Only when neither is available is the episode
+ * opened with a full page load.
+ */
+function loadEpisode(episodeId: number, controlSelector?: string): string {
+	const playerApp =
+		window.netflix?.appContext?.state?.playerApp?.getAPI()?.playerApp;
+	if (typeof playerApp?.loadVideo === "function") {
+		playerApp.loadVideo(episodeId);
+		return "player";
+	}
+	if (controlSelector && clickControl(controlSelector)) {
+		return "control";
+	}
+	window.location.assign(`/watch/${episodeId}`);
+	return "navigation";
+}
+
+// Resolves the episodes surrounding the playing title from the player's metadata
+function getAdjacentEpisodes(): {
+	isEpisode: boolean;
+	previousEpisodeId?: number;
+	nextEpisodeId?: number;
+} | null {
+	const player = getPlayer();
+	const movieId = player?.getMovieId?.();
+	if (movieId === undefined) return null;
+
+	const state = window.netflix?.appContext?.state?.playerApp?.getState?.();
+	const video = state?.videoPlayer?.videoMetadata?.[movieId]?._metadata?.video;
+	if (!video) return null;
+	if (video.type !== "show" || !video.seasons) {
+		return { isEpisode: false };
+	}
+
+	const episodes = [...video.seasons]
+		.sort((a, b) => a.seq - b.seq)
+		.flatMap((season) => [...season.episodes].sort((a, b) => a.seq - b.seq));
+	const currentId = video.currentEpisode ?? movieId;
+	const index = episodes.findIndex((episode) => episode.id === currentId);
+	if (index < 0) return null;
+
+	return {
+		isEpisode: true,
+		previousEpisodeId: episodes[index - 1]?.id,
+		nextEpisodeId: episodes[index + 1]?.id,
+	};
+}
+
+export function getEpisodeInfo(): {
+	success: boolean;
+	error?: string;
+	isEpisode?: boolean;
+	hasPrevious?: boolean;
+	hasNext?: boolean;
+} {
+	try {
+		const episodes = getAdjacentEpisodes();
+		if (episodes) {
+			return {
+				success: true,
+				isEpisode: episodes.isEpisode,
+				hasPrevious: episodes.previousEpisodeId !== undefined,
+				hasNext: episodes.nextEpisodeId !== undefined,
+			};
+		}
+		// without metadata, rely on the player rendering a next episode control;
+		// the previous episode is unknown then
+		const hasNextControl =
+			document.querySelector(NEXT_EPISODE_CONTROL_SELECTOR) !== null;
+		if (hasNextControl) {
+			return {
+				success: true,
+				isEpisode: true,
+				hasPrevious: false,
+				hasNext: true,
+			};
+		}
+		return { success: false, error: "No episode metadata available" };
+	} catch (error) {
+		console.error("[NETFLIX-API] Error getting episode info:", error);
+		return { success: false, error: String(error) };
+	}
+}
+
+export function nextEpisode(): {
+	success: boolean;
+	error?: string;
+	action?: string;
+	episodeId?: number;
+	via?: string;
+} {
+	try {
+		const episodeId = getAdjacentEpisodes()?.nextEpisodeId;
+		if (episodeId !== undefined) {
+			const via = loadEpisode(episodeId, NEXT_EPISODE_CONTROL_SELECTOR);
+			return { action: "nextEpisode", episodeId, via, success: true };
+		}
+		if (clickControl(NEXT_EPISODE_CONTROL_SELECTOR)) {
+			return { action: "nextEpisode", success: true };
+		}
+		return { success: false, error: "No next episode available" };
+	} catch (error) {
+		console.error("[NETFLIX-API] Error in nextEpisode:", error);
+		return { success: false, error: String(error) };
+	}
+}
+
+export function previousEpisode(): {
+	success: boolean;
+	error?: string;
+	action?: string;
+	episodeId?: number;
+	via?: string;
+} {
+	try {
+		const episodeId = getAdjacentEpisodes()?.previousEpisodeId;
+		if (episodeId !== undefined) {
+			// the player has no previous episode control to fall back to
+			const via = loadEpisode(episodeId);
+			return { action: "previousEpisode", episodeId, via, success: true };
+		}
+		return { success: false, error: "No previous episode available" };
+	} catch (error) {
+		console.error("[NETFLIX-API] Error in previousEpisode:", error);
+		return { success: false, error: String(error) };
+	}
+}
+
+// ===== AUDIO & SUBTITLE TRACKS =====
+
+export interface TrackInfo {
+	id: string;
+	label: string;
+	language?: string;
+	isOff: boolean;
+	selected: boolean;
+}
+
+function toTrackInfo(track: NetflixTrack, selected?: NetflixTrack): TrackInfo {
+	return {
+		id: track.trackId,
+		label: track.displayName,
+		language: track.bcp47,
+		isOff: !!track.isNoneTrack,
+		selected: track.trackId === selected?.trackId,
+	};
+}
+
+export function getTracks(): {
+	success: boolean;
+	error?: string;
+	profileId?: string;
+	audio?: TrackInfo[];
+	text?: TrackInfo[];
+} {
+	const player = getPlayer();
+	if (!player) return { success: false, error: NO_PLAYER_ERROR };
+	if (!player.getAudioTrackList || !player.getTextTrackList) {
+		return { success: false, error: "Track lists not supported" };
+	}
+
+	try {
+		const audioTrack = player.getAudioTrack?.();
+		const textTrack = player.getTextTrack?.();
+		return {
+			success: true,
+			profileId: window.netflix?.reactContext?.models?.userInfo?.data?.guid,
+			audio: player
+				.getAudioTrackList()
+				.map((track) => toTrackInfo(track, audioTrack)),
+			text: player
+				.getTextTrackList()
+				.map((track) => toTrackInfo(track, textTrack)),
+		};
+	} catch (error) {
+		console.error("[NETFLIX-API] Error getting tracks:", error);
+		return { success: false, error: String(error) };
+	}
+}
+
+export function setAudioTrack(trackId: string): {
+	success: boolean;
+	error?: string;
+	action?: string;
+} {
+	const player = getPlayer();
+	if (!player) return { success: false, error: NO_PLAYER_ERROR };
+
+	try {
+		const track = player
+			.getAudioTrackList?.()
+			.find((candidate) => candidate.trackId === trackId);
+		if (!track || !player.setAudioTrack) {
+			return { success: false, error: `Unknown audio track: ${trackId}` };
+		}
+		player.setAudioTrack(track);
+		return { action: "audioTrack", success: true };
+	} catch (error) {
+		console.error("[NETFLIX-API] Error in setAudioTrack:", error);
+		return { success: false, error: String(error) };
+	}
+}
+
+export function setTextTrack(trackId: string): {
+	success: boolean;
+	error?: string;
+	action?: string;
+} {
+	const player = getPlayer();
+	if (!player) return { success: false, error: NO_PLAYER_ERROR };
+
+	try {
+		const track = player
+			.getTextTrackList?.()
+			.find((candidate) => candidate.trackId === trackId);
+		if (!track || !player.setTextTrack) {
+			return { success: false, error: `Unknown text track: ${trackId}` };
+		}
+		player.setTextTrack(track);
+		return { action: "textTrack", success: true };
+	} catch (error) {
+		console.error("[NETFLIX-API] Error in setTextTrack:", error);
+		return { success: false, error: String(error) };
+	}
+}
@@ -0,0 +1,101 @@
+/**
+ * Netflix Player Events
+ * Translates the events of the playing <video> element into bridge events,
+ * reading positions from the Netflix player API where it is available.
+ */
+
+import type { BridgeEventName, BridgeEvents } from "../../types/bridge";
+import { getPlayer } from "./player-controls";
+
+export type PlayerEventEmitter = <E extends BridgeEventName>(
+	event: E,
+	data: BridgeEvents[E],
+) => void;
+
+// time to let a burst of page mutations settle before looking for the video
+const VIDEO_CHECK_DELAY = 200;
+
+// Netflix reports positions in milliseconds, the <video> element in seconds
+function getCurrentTime(video: HTMLVideoElement): number {
+	return getPlayer()?.getCurrentTime() ?? video.currentTime * 1000;
+}
+
+function getDuration(video: HTMLVideoElement): number {
+	return getPlayer()?.getDuration() ?? video.duration * 1000;
+}
+
+function getSessionId(): string | undefined {
+	const videoPlayer =
+		window.netflix?.appContext?.state?.playerApp?.getAPI()?.videoPlayer;
+	const sessionIds = videoPlayer?.getAllPlayerSessionIds();
+	return sessionIds?.find((id) => id.startsWith("watch-")) || sessionIds?.[0];
+}
+
+function attach(video: HTMLVideoElement, emit: PlayerEventEmitter): () => void {
+	const listeners: Record<string, () => void> = {
+		play: () => emit("play", { currentTime: getCurrentTime(video) }),
+		pause: () => emit("pause", { currentTime: getCurrentTime(video) }),
+		timeupdate: () =>
+			emit("timeupdate", {
+				currentTime: getCurrentTime(video),
+				duration: getDuration(video),
+			}),
+		volumechange: () => {
+			const player = getPlayer();
+			emit("volumechange", {
+				volume: player?.getVolume() ?? video.volume,
+				isMuted: player?.isMuted() ?? video.muted,
+			});
+		},
+		ended: () => emit("ended", { currentTime: getCurrentTime(video) }),
+	};
+	for (const [event, listener] of Object.entries(listeners)) {
+		video.addEventListener(event, listener);
+	}
+	return () => {
+		for (const [event, listener] of Object.entries(listeners)) {
+			video.removeEventListener(event, listener);
+		}
+	};
+}
+
+/**
+ * Watches the page for the video element of a playback session. Netflix
+ * replaces the element whenever a session starts, so each new element is
+ * reported as a created session and its removal as a destroyed one.
+ */
+export function observePlayerEvents(emit: PlayerEventEmitter): void {
+	let video: HTMLVideoElement | null = null;
+	let sessionId: string | undefined;
+	let detach: (() => void) | null = null;
+	let checkTimeout: number | null = null;
+
+	const update = () => {
+		const current = document.querySelector("video");
+		if (current === video) return;
+		if (video) {
+			detach?.();
+			detach = null;
+			emit("sessiondestroyed", { sessionId });
+		}
+		video = current;
+		if (video) {
+			sessionId = getSessionId();
+			detach = attach(video, emit);
+			emit("sessioncreated", { sessionId });
+		}
+	};
+
+	new MutationObserver(() => {
+		// the attached element is still playing, nothing to look for
+		if (video?.isConnected || checkTimeout !== null) return;
+		checkTimeout = window.setTimeout(() => {
+			checkTimeout = null;
+			update();
+		}, VIDEO_CHECK_DELAY);
+	}).observe(document.documentElement, {
+		childList: true,
+		subtree: true,
+	});
+	update();
+}
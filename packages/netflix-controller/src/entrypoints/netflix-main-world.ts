@@ -2,9 +2,13 @@
  * Netflix API Main World Bridge
  * This script runs in the main world (not isolated) to access Netflix's internal API
  *
+ * The content script calls the allow-listed commands in netflix-api/bridge.ts,
+ * while in development builds window.netflixDebug exposes everything for use
+ * from the console.
  */
 
-import type { NetflixDebugTools } from "../../env";
+import { BRIDGE_KEY_ATTRIBUTE } from "../types/bridge";
+import { listenForBridge } from "./netflix-api/bridge";
 import {
 	exploreAPI,
 	exportAll,
@@ -16,10 +20,21 @@ import {
 } from "./netflix-api/debug";
 // Import the modular functions
 import {
+	getEpisodeInfo,
+	getPlaybackRate,
 	getPlaybackStatus,
 	getPlayer,
+	getSkipSegments,
+	getTracks,
+	nextEpisode,
+	previousEpisode,
 	seekBackward,
 	seekForward,
+	seekTo,
+	setAudioTrack,
+	setPaused,
+	setPlaybackRate,
+	setTextTrack,
 	toggleMute,
 	togglePlayPause,
 	volumeDown,
@@ -30,6 +45,19 @@ export default defineUnlistedScript({
 	main() {
 		console.log("[DEBUG] Netflix debug tools script loaded in main world");
 
+		// the content script's session key names the bridge channel; it is
+		// removed right away so page scripts that look at the element later do
+		// not find it
+		const script = document.currentScript;
+		const key = script?.getAttribute(BRIDGE_KEY_ATTRIBUTE);
+		script?.removeAttribute(BRIDGE_KEY_ATTRIBUTE);
+		if (key) {
+			// Commands report NO_PLAYER until the Netflix API is available
+			listenForBridge(key);
+		} else {
+			console.warn("[NETFLIX-BRIDGE] Injected without a key, bridge disabled");
+		}
+
 		// Wait for Netflix API to be available
 		const checkNetflixAPI = () => {
 			if (window.netflix?.appContext?.state?.playerApp) {
@@ -53,12 +81,23 @@ export default defineUnlistedScript({
 				// Player Control Functions
 				getPlayer: () => getPlayer(),
 				togglePlayPause: () => togglePlayPause(),
+				setPaused: (paused: boolean) => setPaused(paused),
 				toggleMute: () => toggleMute(),
 				seekForward: (seconds?: number) => seekForward(seconds),
 				seekBackward: (seconds?: number) => seekBackward(seconds),
+				seekTo: (timeMs: number) => seekTo(timeMs),
 				volumeUp: (delta?: number) => volumeUp(delta),
 				volumeDown: (delta?: number) => volumeDown(delta),
+				getPlaybackRate: () => getPlaybackRate(),
+				setPlaybackRate: (rate: number) => setPlaybackRate(rate),
 				getPlaybackStatus: () => getPlaybackStatus(),
+				getSkipSegments: () => getSkipSegments(),
+				getEpisodeInfo: () => getEpisodeInfo(),
+				nextEpisode: () => nextEpisode(),
+				previousEpisode: () => previousEpisode(),
+				getTracks: () => getTracks(),
+				setAudioTrack: (trackId: string) => setAudioTrack(trackId),
+				setTextTrack: (trackId: string) => setTextTrack(trackId),
 
 				// Debug Functions
 				getFullAPI: () => getFullAPI(),
@@ -84,6 +123,9 @@ export default defineUnlistedScript({
 			console.log(
 				"  - netflixDebug.getTimecodes() - Get skip intro/credits timecodes",
 			);
+			console.log(
+				"  - netflixDebug.getSkipSegments() - Get intro/recap/credits ranges",
+			);
 			console.log(
 				"  - netflixDebug.testVideoPlayerMethods() - Test all methods",
 			);
@@ -91,64 +133,24 @@ export default defineUnlistedScript({
 			console.log("  - netflixDebug.toggleMute() - Toggle mute");
 			console.log("  - netflixDebug.seekForward(seconds) - Seek forward");
 			console.log("  - netflixDebug.seekBackward(seconds) - Seek backward");
+			console.log("  - netflixDebug.seekTo(timeMs) - Seek to position");
 			console.log("  - netflixDebug.volumeUp(delta) - Increase volume");
 			console.log("  - netflixDebug.volumeDown(delta) - Decrease volume");
-			console.log("  - netflixDebug.exportAll() - Export everything as JSON");
-			console.log("  - netflixDebug.getFullAPI() - Get raw API object");
-
-			// Message handler for communication with content script
 			console.log(
-				"[DEBUG] Setting up message handler for content script communication",
+				"  - netflixDebug.setPlaybackRate(rate) - Change playback speed",
 			);
-			window.addEventListener("message", (event: MessageEvent) => {
-				// Only accept messages from our own extension
-				if (event.source !== window) return;
-				if (event.data?.type !== "netflix-controller-command") return;
-
-				const { command, args = [], requestId } = event.data;
-				console.log("[NETFLIX-COMMAND]", command, args);
-
-				try {
-					let result: unknown;
-					if (
-						typeof window.netflixDebug[command as keyof NetflixDebugTools] ===
-						"function"
-					) {
-						result = (window.netflixDebug as NetflixDebugTools)[
-							command as keyof NetflixDebugTools
-						](...(args as []));
-					} else {
-						result = { success: false, error: `Unknown command: ${command}` };
-					}
-
-					// Send response back to content script
-					window.postMessage(
-						{
-							type: "netflix-controller-response",
-							requestId,
-							result,
-						},
-						"*",
-					);
-				} catch (error) {
-					console.error(
-						"[NETFLIX-COMMAND] Error executing command:",
-						command,
-						error,
-					);
-					window.postMessage(
-						{
-							type: "netflix-controller-response",
-							requestId,
-							result: { success: false, error: String(error) },
-						},
-						"*",
-					);
-				}
-			});
+			console.log("  - netflixDebug.nextEpisode() - Play next episode");
+			console.log("  - netflixDebug.previousEpisode() - Play previous episode");
+			console.log(
+				"  - netflixDebug.getTracks() - List audio and subtitle tracks",
+			);
+			console.log("  - netflixDebug.exportAll() - Export everything as JSON");
+			console.log("  - netflixDebug.getFullAPI() - Get raw API object");
 		}
 
-		// Start checking
-		checkNetflixAPI();
+		// page scripts could call every command through the debug tools
+		if (import.meta.env.DEV) {
+			checkNetflixAPI();
+		}
 	},
 });
@@ -0,0 +1,227 @@
+import gameControl, { type GamepadState } from "@ribajs/gamecontroller.js";
+import type { ControllerSettings } from "../../types/gamepad";
+import type { ActionId, ButtonBindings } from "../../types/settings";
+import {
+	ACTION_BINDINGS,
+	getBoundButton,
+} from "../../utils/action-bindings.ts";
+import { gamepadMappings } from "../../utils/gamepad-icons.ts";
+import * as S from "../../utils/storage-items";
+import { getProfileLabel } from "./profiles.ts";
+
+const MAX_BUTTON_INDEX = 16;
+
+let globalBindings: ButtonBindings = {};
+let profiles: Record<string, ControllerSettings> = {};
+// profile whose bindings are edited, or null for the global bindings
+let profileKey: string | null = null;
+// bindings shown, falling back to the global ones for profiles without their own
+let bindings: ButtonBindings = {};
+let buttonMapping = "Xbox One";
+// action waiting for the next gamepad button press
+let capturing: ActionId | null = null;
+
+/**
+ * Lists every remappable action with its bound button. Selecting an action
+ * waits for a button press on any connected gamepad and binds it. Bindings
+ * are edited globally or for a single controller profile.
+ */
+export function initButtonBindings(): void {
+	gamepadMappings.buttonsPath = "/assets/buttons";
+
+	Promise.all([
+		S.buttonBindings.get().then((v) => {
+			globalBindings = v ?? {};
+		}),
+		S.controllerSettings.get().then((v) => {
+			profiles = v ?? {};
+		}),
+		S.buttonImageMapping.get().then((v) => {
+			buttonMapping = v ?? "Xbox One";
+		}),
+	])
+		.then(() => updateProfiles())
+		.catch((err) => console.error("Failed to load button bindings", err));
+
+	S.buttonBindings.onChanged((v) => {
+		globalBindings = v ?? {};
+		updateProfiles();
+	});
+	S.controllerSettings.onChanged((v) => {
+		profiles = v ?? {};
+		updateProfiles();
+	});
+	S.buttonImageMapping.onChanged((v) => {
+		buttonMapping = v;
+		renderBindings();
+	});
+
+	const profileSelect = document.getElementById(
+		"bindings-profile",
+	) as HTMLSelectElement | null;
+	profileSelect?.addEventListener("change", () => {
+		profileKey = profileSelect.value || null;
+		capturing = null;
+		updateProfiles();
+	});
+	document.getElementById("reset-bindings")?.addEventListener("click", () => {
+		capturing = null;
+		// a profile goes back to the global bindings
+		saveBindings(profileKey !== null ? undefined : {});
+	});
+	document.addEventListener("keydown", (event) => {
+		if (capturing && event.key === "Escape") {
+			capturing = null;
+			renderBindings();
+		}
+	});
+
+	gameControl.on("connect", (gamepad: GamepadState) => {
+		for (let i = 0; i <= MAX_BUTTON_INDEX; i++) {
+			const buttonIndex = i;
+			gamepad.before(`button${buttonIndex}`, () => bindButton(buttonIndex));
+		}
+	});
+}
+
+function setBinding(
+	updated: ButtonBindings,
+	id: ActionId,
+	index: number,
+): void {
+	if (index === ACTION_BINDINGS[id].defaultButton) {
+		delete updated[id];
+	} else {
+		updated[id] = index;
+	}
+}
+
+// actions of a group share the buttons, so taking another action's button swaps the two
+function assignButton(id: ActionId, index: number): void {
+	const updated = { ...bindings };
+	const { group } = ACTION_BINDINGS[id];
+	const conflict = (Object.keys(ACTION_BINDINGS) as ActionId[]).find(
+		(other) =>
+			other !== id &&
+			ACTION_BINDINGS[other].group === group &&
+			getBoundButton(other, bindings) === index,
+	);
+	if (conflict) {
+		setBinding(updated, conflict, getBoundButton(id, bindings));
+	}
+	setBinding(updated, id, index);
+	saveBindings(updated);
+}
+
+function bindButton(index: number): void {
+	if (!capturing) return;
+	const id = capturing;
+	capturing = null;
+	assignButton(id, index);
+}
+
+function saveBindings(updated: ButtonBindings | undefined): void {
+	if (profileKey === null) {
+		S.buttonBindings.set(updated ?? {});
+		return;
+	}
+	const { buttonBindings: _removed, ...profile } = profiles[profileKey] ?? {};
+	S.controllerSettings.set({
+		...profiles,
+		[profileKey]: updated ? { ...profile, buttonBindings: updated } : profile,
+	});
+}
+
+// list the profiles to edit and show the bindings of the selected one
+function updateProfiles(): void {
+	if (profileKey !== null && !(profileKey in profiles)) {
+		profileKey = null;
+	}
+	const select = document.getElementById(
+		"bindings-profile",
+	) as HTMLSelectElement | null;
+	if (select) {
+		select.innerHTML = "";
+		select.append(new Option("All controllers", ""));
+		for (const key of Object.keys(profiles)) {
+			select.append(new Option(getProfileLabel(key), key));
+		}
+		select.value = profileKey ?? "";
+	}
+	bindings =
+		(profileKey !== null ? profiles[profileKey]?.buttonBindings : undefined) ??
+		globalBindings;
+	const reset = document.getElementById("reset-bindings");
+	if (reset) {
+		reset.textContent =
+			profileKey !== null
+				? "Use the bindings of all controllers"
+				: "Reset all to defaults";
+	}
+	renderBindings();
+}
+
+function renderBindings(): void {
+	const container = document.getElementById("bindings");
+	if (!container) return;
+	container.innerHTML = "";
+	let group: string | null = null;
+	for (const [id, binding] of Object.entries(ACTION_BINDINGS) as [
+		ActionId,
+		(typeof ACTION_BINDINGS)[ActionId],
+	][]) {
+		if (binding.group !== group) {
+			group = binding.group;
+			const heading = document.createElement("h3");
+			heading.classList.add("group");
+			heading.textContent = group;
+			container.append(heading);
+		}
+
+		const label = document.createElement("label");
+		label.classList.add("label");
+		label.textContent = binding.label;
+		label.htmlFor = `binding-${id}`;
+		container.append(label);
+
+		const controlDiv = document.createElement("div");
+		controlDiv.classList.add("control");
+		controlDiv.append(createBindingButton(id));
+		if (id in bindings) {
+			const reset = document.createElement("button");
+			reset.classList.add("reset-binding");
+			reset.textContent = "Reset";
+			reset.addEventListener("click", () =>
+				assignButton(id, ACTION_BINDINGS[id].defaultButton),
+			);
+			controlDiv.append(reset);
+		}
+		container.append(controlDiv);
+	}
+}
+
+function createBindingButton(id: ActionId): HTMLButtonElement {
+	const button = document.createElement("button");
+	button.id = `binding-${id}`;
+	button.classList.add("binding");
+	if (capturing === id) {
+		button.classList.add("capturing");
+		button.textContent = "Press a button…";
+	} else {
+		const index = getBoundButton(id, bindings);
+		const gamepadButton = gamepadMappings.getButton(buttonMapping, index);
+		if (gamepadButton) {
+			const img = document.createElement("img");
+			img.src = gamepadButton.buttonImageSrc;
+			img.alt = gamepadButton.buttonName;
+			button.append(img, gamepadButton.buttonName.replaceAll("_", " "));
+		} else {
+			button.textContent = `Button ${index}`;
+		}
+	}
+	button.addEventListener("click", () => {
+		capturing = capturing === id ? null : id;
+		renderBindings();
+	});
+	return button;
+}
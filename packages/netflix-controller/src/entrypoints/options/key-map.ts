@@ -0,0 +1,109 @@
+import type { KeyMap } from "../../types/settings";
+import { gamepadMappings } from "../../utils/gamepad-icons.ts";
+import { DEFAULT_KEY_MAP, formatKey } from "../../utils/key-map.ts";
+import * as S from "../../utils/storage-items";
+
+// standard gamepad buttons a key can press
+const BUTTON_COUNT = 16;
+
+let keyMap: KeyMap = DEFAULT_KEY_MAP;
+let buttonMapping = "Xbox One";
+// button waiting for the next key press
+let capturing: number | null = null;
+
+/**
+ * Lists the keys mapped to each gamepad button. Adding a key waits for the
+ * next key press; a key can only press one button at a time.
+ */
+export function initKeyMap(): void {
+	Promise.all([
+		S.keyMap.get().then((v) => {
+			keyMap = v ?? DEFAULT_KEY_MAP;
+		}),
+		S.buttonImageMapping.get().then((v) => {
+			buttonMapping = v ?? "Xbox One";
+		}),
+	])
+		.then(() => renderKeyMap())
+		.catch((err) => console.error("Failed to load key map", err));
+
+	S.keyMap.onChanged((v) => {
+		keyMap = v ?? DEFAULT_KEY_MAP;
+		renderKeyMap();
+	});
+	S.buttonImageMapping.onChanged((v) => {
+		buttonMapping = v;
+		renderKeyMap();
+	});
+
+	document.getElementById("reset-key-map")?.addEventListener("click", () => {
+		capturing = null;
+		S.keyMap.set(DEFAULT_KEY_MAP);
+	});
+	// capture phase so the key does not also activate the focused button
+	document.addEventListener(
+		"keydown",
+		(event) => {
+			if (capturing === null) return;
+			event.preventDefault();
+			event.stopPropagation();
+			const button = capturing;
+			capturing = null;
+			S.keyMap.set({ ...keyMap, [event.key]: button });
+		},
+		true,
+	);
+}
+
+function renderKeyMap(): void {
+	const container = document.getElementById("key-map");
+	if (!container) return;
+	container.innerHTML = "";
+	for (let index = 0; index < BUTTON_COUNT; index++) {
+		const button = gamepadMappings.getButton(buttonMapping, index);
+		const label = document.createElement("label");
+		label.classList.add("label", "key-map-button");
+		if (button) {
+			const img = document.createElement("img");
+			img.src = button.buttonImageSrc;
+			img.alt = button.buttonName;
+			label.append(img, button.buttonName.replaceAll("_", " "));
+		} else {
+			label.textContent = `Button ${index}`;
+		}
+		container.append(label);
+
+		const controlDiv = document.createElement("div");
+		controlDiv.classList.add("control", "key-map-keys");
+		for (const [key, mapped] of Object.entries(keyMap)) {
+			if (mapped === index) {
+				controlDiv.append(createKeyChip(key));
+			}
+		}
+		const add = document.createElement("button");
+		add.classList.add("add-key");
+		add.textContent = capturing === index ? "Press a key…" : "Add key";
+		add.classList.toggle("capturing", capturing === index);
+		add.addEventListener("click", () => {
+			capturing = capturing === index ? null : index;
+			renderKeyMap();
+		});
+		controlDiv.append(add);
+		container.append(controlDiv);
+	}
+}
+
+function createKeyChip(key: string): HTMLElement {
+	const chip = document.createElement("span");
+	chip.classList.add("key-chip");
+	chip.textContent = formatKey(key);
+	const remove = document.createElement("button");
+	remove.textContent = "×";
+	remove.title = `Remove ${formatKey(key)}`;
+	remove.addEventListener("click", () => {
+		const { [key]: _removed, ...rest } = keyMap;
+		S.keyMap.set(rest);
+	});
+	chip.append(remove);
+	return chip;
+}
@@ -1,4 +1,9 @@
+import type { PrimaryControllerPolicy } from "../../types/gamepad";
+import type { SkipMode } from "../../types/settings";
 import * as S from "../../utils/storage-items";
+import { initButtonBindings } from "./bindings.ts";
+import { initKeyMap } from "./key-map.ts";
+import { initControllerProfiles } from "./profiles.ts";
 import { OPTIONS, type Option } from "./settings.ts";
 
 // Initialize values and change listeners
@@ -16,6 +21,9 @@ const dependencies: Record<string, Record<string, unknown>> = {};
 for (const option of OPTIONS) {
 	insertOptionControl(option);
 }
+initControllerProfiles();
+initButtonBindings();
+initKeyMap();
 
 // Initial population from storage
 Promise.all([
@@ -31,6 +39,42 @@ Promise.all([
 	S.showCompatibilityWarning
 		.get()
 		.then((v) => updateDisplayedSetting("showCompatibilityWarning", v ?? true)),
+	S.skipIntro
+		.get()
+		.then((v) => updateDisplayedSetting("skipIntro", v ?? "Show button")),
+	S.skipRecap
+		.get()
+		.then((v) => updateDisplayedSetting("skipRecap", v ?? "Show button")),
+	S.skipCredits
+		.get()
+		.then((v) => updateDisplayedSetting("skipCredits", v ?? "Off")),
+	S.directionRepeat
+		.get()
+		.then((v) => updateDisplayedSetting("directionRepeat", v ?? true)),
+	S.repeatDelay
+		.get()
+		.then((v) => updateDisplayedSetting("repeatDelay", v ?? 400)),
+	S.repeatRate.get().then((v) => updateDisplayedSetting("repeatRate", v ?? 8)),
+	S.repeatAcceleration
+		.get()
+		.then((v) => updateDisplayedSetting("repeatAcceleration", v ?? true)),
+	S.stickDeadZone
+		.get()
+		.then((v) => updateDisplayedSetting("stickDeadZone", v ?? 0.15)),
+	S.stickThreshold
+		.get()
+		.then((v) => updateDisplayedSetting("stickThreshold", v ?? 0.5)),
+	S.hapticIntensity
+		.get()
+		.then((v) => updateDisplayedSetting("hapticIntensity", v ?? 50)),
+	S.keyboardInput
+		.get()
+		.then((v) => updateDisplayedSetting("keyboardInput", v ?? false)),
+	S.primaryController
+		.get()
+		.then((v) =>
+			updateDisplayedSetting("primaryController", v ?? "First active"),
+		),
 ]).catch((err) => console.error("Failed to load options from storage", err));
 
 // Wire change listeners
@@ -46,6 +90,26 @@ S.showConnectionHint.onChanged((v) =>
 S.showCompatibilityWarning.onChanged((v) =>
 	updateDisplayedSetting("showCompatibilityWarning", v),
 );
+S.skipIntro.onChanged((v) => updateDisplayedSetting("skipIntro", v));
+S.skipRecap.onChanged((v) => updateDisplayedSetting("skipRecap", v));
+S.skipCredits.onChanged((v) => updateDisplayedSetting("skipCredits", v));
+S.directionRepeat.onChanged((v) =>
+	updateDisplayedSetting("directionRepeat", v),
+);
+S.repeatDelay.onChanged((v) => updateDisplayedSetting("repeatDelay", v));
+S.repeatRate.onChanged((v) => updateDisplayedSetting("repeatRate", v));
+S.repeatAcceleration.onChanged((v) =>
+	updateDisplayedSetting("repeatAcceleration", v),
+);
+S.stickDeadZone.onChanged((v) => updateDisplayedSetting("stickDeadZone", v));
+S.stickThreshold.onChanged((v) => updateDisplayedSetting("stickThreshold", v));
+S.hapticIntensity.onChanged((v) =>
+	updateDisplayedSetting("hapticIntensity", v),
+);
+S.keyboardInput.onChanged((v) => updateDisplayedSetting("keyboardInput", v));
+S.primaryController.onChanged((v) =>
+	updateDisplayedSetting("primaryController", v),
+);
 
 function updateDisplayedSetting(key: string, value: unknown): void {
 	const element = document.getElementById(key);
@@ -110,6 +174,8 @@ function insertOptionControl(option: Option): void {
 		control = createCheckbox(option);
 	} else if (option.type === "combobox") {
 		control = createCombobox(option);
+	} else if (option.type === "number") {
+		control = createNumberInput(option);
 	}
 
 	if (control) {
@@ -143,6 +209,12 @@ function createCheckbox(option: Option): HTMLInputElement {
 			S.showConnectionHint.set(checkbox.checked);
 		} else if (option.name === "showCompatibilityWarning") {
 			S.showCompatibilityWarning.set(checkbox.checked);
+		} else if (option.name === "directionRepeat") {
+			S.directionRepeat.set(checkbox.checked);
+		} else if (option.name === "repeatAcceleration") {
+			S.repeatAcceleration.set(checkbox.checked);
+		} else if (option.name === "keyboardInput") {
+			S.keyboardInput.set(checkbox.checked);
 		}
 	});
 	(
@@ -177,6 +249,14 @@ function createCombobox(option: Option): HTMLSelectElement {
 	combobox.addEventListener("change", () => {
 		if (option.name === "buttonImageMapping") {
 			S.buttonImageMapping.set(combobox.value);
+		} else if (option.name === "skipIntro") {
+			S.skipIntro.set(combobox.value as SkipMode);
+		} else if (option.name === "skipRecap") {
+			S.skipRecap.set(combobox.value as SkipMode);
+		} else if (option.name === "skipCredits") {
+			S.skipCredits.set(combobox.value as SkipMode);
+		} else if (option.name === "primaryController") {
+			S.primaryController.set(combobox.value as PrimaryControllerPolicy);
 		}
 	});
 	(
@@ -195,3 +275,47 @@ function createCombobox(option: Option): HTMLSelectElement {
 	};
 	return combobox;
 }
+
+function createNumberInput(option: Option): HTMLInputElement {
+	const input = document.createElement("input");
+	input.type = "number";
+	input.id = option.name;
+	input.value = String(option.default);
+	if (option.min !== undefined) input.min = String(option.min);
+	if (option.max !== undefined) input.max = String(option.max);
+	if (option.step !== undefined) input.step = String(option.step);
+	input.addEventListener("change", () => {
+		let value = Number(input.value);
+		if (Number.isNaN(value)) {
+			value = option.default as number;
+		}
+		value = Math.min(Math.max(value, option.min ?? value), option.max ?? value);
+		input.value = String(value);
+		if (option.name === "repeatDelay") {
+			S.repeatDelay.set(value);
+		} else if (option.name === "repeatRate") {
+			S.repeatRate.set(value);
+		} else if (option.name === "stickDeadZone") {
+			S.stickDeadZone.set(value);
+		} else if (option.name === "stickThreshold") {
+			S.stickThreshold.set(value);
+		} else if (option.name === "hapticIntensity") {
+			S.hapticIntensity.set(value);
+		}
+	});
+	(
+		input as unknown as {
+			getValue: () => number;
+			setValue: (value: number) => void;
+		}
+	).getValue = () => Number(input.value);
+	(
+		input as unknown as {
+			getValue: () => number;
+			setValue: (value: number) => void;
+		}
+	).setValue = (value: number) => {
+		input.value = String(value);
+	};
+	return input;
+}
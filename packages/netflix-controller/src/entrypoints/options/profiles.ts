@@ -0,0 +1,246 @@
+import type { ControllerSettings, StickCalibration } from "../../types/gamepad";
+import {
+	getProfileType,
+	getTypeProfileKey,
+} from "../../utils/controller-profiles.ts";
+import * as S from "../../utils/storage-items";
+import { OPTIONS, type Option } from "./settings.ts";
+
+// profile settings edited here; button bindings are edited under Controls
+const PROFILE_OPTIONS: (keyof ControllerSettings)[] = [
+	"buttonImageMapping",
+	"directionRepeat",
+	"repeatDelay",
+	"repeatRate",
+	"repeatAcceleration",
+	"stickDeadZone",
+	"stickThreshold",
+	"hapticIntensity",
+];
+
+let profiles: Record<string, ControllerSettings> = {};
+let calibrations: Record<string, StickCalibration> = {};
+
+export function getProfileLabel(key: string): string {
+	const type = getProfileType(key);
+	return type !== null ? `All ${type} controllers` : key;
+}
+
+/**
+ * Lists the controller profiles with a control for each setting they can
+ * override, where "Global" keeps the setting of all controllers. Profiles
+ * are created for a connected controller or for every controller of a type.
+ */
+export function initControllerProfiles(): void {
+	Promise.all([
+		S.controllerSettings.get().then((v) => {
+			profiles = v ?? {};
+		}),
+		S.stickCalibrations.get().then((v) => {
+			calibrations = v ?? {};
+		}),
+	])
+		.then(() => renderProfiles())
+		.catch((err) => console.error("Failed to load controller profiles", err));
+
+	S.controllerSettings.onChanged((v) => {
+		profiles = v ?? {};
+		renderProfiles();
+	});
+	S.stickCalibrations.onChanged((v) => {
+		calibrations = v ?? {};
+		renderProfiles();
+	});
+
+	// controllers are only listed once a button was pressed on this page
+	window.addEventListener("gamepadconnected", () => updateNewProfiles());
+	window.addEventListener("gamepaddisconnected", () => updateNewProfiles());
+
+	document.getElementById("add-profile")?.addEventListener("click", () => {
+		const select = document.getElementById(
+			"new-profile",
+		) as HTMLSelectElement | null;
+		if (select?.value) {
+			saveProfile(select.value, {});
+		}
+	});
+}
+
+function saveProfile(key: string, profile: ControllerSettings | null): void {
+	const updated = { ...profiles };
+	if (profile) {
+		updated[key] = profile;
+	} else {
+		delete updated[key];
+	}
+	S.controllerSettings.set(updated);
+}
+
+function setProfileSetting(
+	key: string,
+	name: keyof ControllerSettings,
+	value: unknown,
+): void {
+	const profile: Record<string, unknown> = { ...profiles[key] };
+	if (value === undefined) {
+		delete profile[name];
+	} else {
+		profile[name] = value;
+	}
+	saveProfile(key, profile as ControllerSettings);
+}
+
+// connected controllers and controller types that do not have a profile yet
+function updateNewProfiles(): void {
+	const select = document.getElementById(
+		"new-profile",
+	) as HTMLSelectElement | null;
+	if (!select) return;
+	select.innerHTML = "";
+	const connected = document.createElement("optgroup");
+	connected.label = "Connected controllers";
+	for (const gamepad of navigator.getGamepads()) {
+		if (gamepad && !(gamepad.id in profiles)) {
+			connected.append(new Option(gamepad.id, gamepad.id));
+		}
+	}
+	const types = document.createElement("optgroup");
+	types.label = "Controller types";
+	const mappings = OPTIONS.find(
+		(option) => option.name === "buttonImageMapping",
+	);
+	for (const type of mappings?.values ?? []) {
+		const key = getTypeProfileKey(type);
+		if (!(key in profiles)) {
+			types.append(new Option(getProfileLabel(key), key));
+		}
+	}
+	for (const group of [connected, types]) {
+		if (group.children.length > 0) {
+			select.append(group);
+		}
+	}
+}
+
+function renderProfiles(): void {
+	updateNewProfiles();
+	const container = document.getElementById("profiles");
+	if (!container) return;
+	container.innerHTML = "";
+	Object.keys(profiles).forEach((key, index) => {
+		const heading = document.createElement("h3");
+		heading.classList.add("group");
+		heading.textContent = getProfileLabel(key);
+		container.append(heading);
+
+		for (const name of PROFILE_OPTIONS) {
+			const option = OPTIONS.find((option) => option.name === name);
+			if (!option) continue;
+			const id = `profile-${index}-${name}`;
+			appendRow(container, option.label, createProfileControl(key, option, id));
+		}
+
+		const bindings = document.createElement("span");
+		bindings.textContent = profiles[key].buttonBindings
+			? "Own bindings, edited under Controls"
+			: "Global";
+		appendRow(container, "Button bindings", bindings);
+
+		// calibrations are saved per controller in the popup
+		if (getProfileType(key) === null) {
+			const calibration = document.createElement("span");
+			calibration.textContent =
+				key in calibrations ? "Calibrated" : "Default, calibrate in the popup";
+			const controls: HTMLElement[] = [calibration];
+			if (key in calibrations) {
+				const reset = document.createElement("button");
+				reset.textContent = "Reset";
+				reset.addEventListener("click", () => {
+					const { [key]: _removed, ...rest } = calibrations;
+					S.stickCalibrations.set(rest);
+				});
+				controls.push(reset);
+			}
+			appendRow(container, "Left stick calibration", ...controls);
+		}
+
+		const remove = document.createElement("button");
+		remove.classList.add("delete-profile");
+		remove.textContent = "Delete profile";
+		remove.addEventListener("click", () => saveProfile(key, null));
+		container.append(remove);
+	});
+}
+
+function appendRow(
+	container: HTMLElement,
+	text: string,
+	...controls: HTMLElement[]
+): void {
+	const label = document.createElement("label");
+	label.classList.add("label");
+	label.textContent = text;
+	if (controls[0]?.id) {
+		label.htmlFor = controls[0].id;
+	}
+	container.append(label);
+
+	const controlDiv = document.createElement("div");
+	controlDiv.classList.add("control");
+	controlDiv.append(...controls);
+	container.append(controlDiv);
+}
+
+function createProfileControl(
+	key: string,
+	option: Option,
+	id: string,
+): HTMLElement {
+	const name = option.name as keyof ControllerSettings;
+	const value = profiles[key][name];
+	if (option.type === "number") {
+		const input = document.createElement("input");
+		input.type = "number";
+		input.id = id;
+		input.placeholder = "Global";
+		input.value = value !== undefined ? String(value) : "";
+		if (option.min !== undefined) input.min = String(option.min);
+		if (option.max !== undefined) input.max = String(option.max);
+		if (option.step !== undefined) input.step = String(option.step);
+		input.addEventListener("change", () => {
+			const number = Number(input.value);
+			if (input.value === "" || Number.isNaN(number)) {
+				setProfileSetting(key, name, undefined);
+				return;
+			}
+			setProfileSetting(
+				key,
+				name,
+				Math.min(Math.max(number, option.min ?? number), option.max ?? number),
+			);
+		});
+		return input;
+	}
+
+	const select = document.createElement("select");
+	select.id = id;
+	select.append(new Option("Global", ""));
+	if (option.type === "checkbox") {
+		select.append(new Option("On", "true"), new Option("Off", "false"));
+	} else {
+		for (const optionValue of option.values ?? []) {
+			select.append(new Option(optionValue, optionValue));
+		}
+	}
+	select.value = value !== undefined ? String(value) : "";
+	select.addEventListener("change", () => {
+		if (select.value === "") {
+			setProfileSetting(key, name, undefined);
+		} else if (option.type === "checkbox") {
+			setProfileSetting(key, name, select.value === "true");
+		} else {
+			setProfileSetting(key, name, select.value);
+		}
+	});
+	return select;
+}
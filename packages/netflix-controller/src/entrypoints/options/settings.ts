@@ -6,9 +6,12 @@ export interface Option {
 	label: string;
 	name: string;
 	storageArea: "sync" | "local";
-	type: "checkbox" | "combobox";
+	type: "checkbox" | "combobox" | "number";
 	default: boolean | string | unknown;
 	values?: string[];
+	min?: number;
+	max?: number;
+	step?: number;
 	condition?: Record<string, unknown>;
 }
 
@@ -60,4 +63,116 @@ export const OPTIONS: Option[] = [
 		type: "checkbox",
 		default: true,
 	},
+	{
+		label: "Skip intros",
+		name: "skipIntro",
+		storageArea: "sync",
+		type: "combobox",
+		values: ["Show button", "Skip automatically", "Off"],
+		default: "Show button",
+	},
+	{
+		label: "Skip recaps",
+		name: "skipRecap",
+		storageArea: "sync",
+		type: "combobox",
+		values: ["Show button", "Skip automatically", "Off"],
+		default: "Show button",
+	},
+	{
+		label: "Skip end credits",
+		name: "skipCredits",
+		storageArea: "sync",
+		type: "combobox",
+		values: ["Show button", "Skip automatically", "Off"],
+		default: "Off",
+	},
+	{
+		label: "Repeat held directions",
+		name: "directionRepeat",
+		storageArea: "sync",
+		type: "checkbox",
+		default: true,
+	},
+	{
+		label: "Delay before repeating (ms)",
+		name: "repeatDelay",
+		storageArea: "sync",
+		type: "number",
+		min: 100,
+		max: 1000,
+		step: 50,
+		default: 400,
+		condition: {
+			directionRepeat: true,
+		},
+	},
+	{
+		label: "Repeats per second",
+		name: "repeatRate",
+		storageArea: "sync",
+		type: "number",
+		min: 2,
+		max: 30,
+		step: 1,
+		default: 8,
+		condition: {
+			directionRepeat: true,
+		},
+	},
+	{
+		label: "Speed up repeating while held",
+		name: "repeatAcceleration",
+		storageArea: "sync",
+		type: "checkbox",
+		default: true,
+		condition: {
+			directionRepeat: true,
+		},
+	},
+	{
+		label: "Left stick dead zone (0 to 0.9)",
+		name: "stickDeadZone",
+		storageArea: "sync",
+		type: "number",
+		min: 0,
+		max: 0.9,
+		step: 0.05,
+		default: 0.15,
+	},
+	{
+		label: "Left stick deflection that moves (0.1 to 1)",
+		name: "stickThreshold",
+		storageArea: "sync",
+		type: "number",
+		min: 0.1,
+		max: 1,
+		step: 0.05,
+		default: 0.5,
+	},
+	{
+		label: "Controller used when several are connected",
+		name: "primaryController",
+		storageArea: "sync",
+		type: "combobox",
+		values: ["First active", "Last active", "Pinned"],
+		default: "First active",
+	},
+	{
+		label: "Vibration intensity (%, 0 to turn off)",
+		name: "hapticIntensity",
+		storageArea: "sync",
+		type: "number",
+		min: 0,
+		max: 100,
+		step: 10,
+		default: 50,
+	},
+	{
+		label: "Use keyboard and TV remote input",
+		name: "keyboardInput",
+		storageArea: "sync",
+		type: "checkbox",
+		default: false,
+	},
 ];
@@ -1,7 +1,19 @@
 import gameControl from "@ribajs/gamecontroller.js";
-import type { GamepadState } from "../../types/gamepad";
+import type {
+	ControllerSettings,
+	GamepadState,
+	PrimaryControllerPolicy,
+	StickCalibration,
+} from "../../types/gamepad";
 import { getControllerMapping } from "../../utils/controller-detection";
 import { gamepadMappings } from "../../utils/gamepad-icons.ts";
+import { playHapticEffect } from "../../utils/haptics.ts";
+import {
+	calibrateStick,
+	DEFAULT_STICK_CALIBRATION,
+	getStickCalibration,
+	getStickDirection,
+} from "../../utils/stick-calibration.ts";
 import * as S from "../../utils/storage-items";
 
 let currentMapping = "Xbox Series";
@@ -27,32 +39,34 @@ browser.tabs.query({ currentWindow: true, active: true }, (tabs) => {
 });
 
 // Initialize mapping and wire listener
+let globalMapping = "Xbox Series";
+let controllerSettings: Record<string, ControllerSettings> = {};
+
 S.buttonImageMapping
 	.get()
 	.then((v) => {
-		currentMapping = v ?? "Xbox Series";
-		const mappingElement = document.getElementById(
-			"gamepad-mapping",
-		) as HTMLSelectElement;
-		if (mappingElement) {
-			mappingElement.value = currentMapping;
-		}
+		globalMapping = v ?? "Xbox Series";
+		loadMapping();
 	})
 	.catch((err) => console.error("Failed to read buttonImageMapping", err));
 
 S.buttonImageMapping.onChanged((v) => {
-	currentMapping = v;
-	const mappingElement = document.getElementById(
-		"gamepad-mapping",
-	) as HTMLSelectElement;
-	if (mappingElement) {
-		mappingElement.value = currentMapping;
-	}
+	globalMapping = v;
+	loadMapping();
 });
 
-// Track joystick values globally for beforeCycle reset
-const leftJoystickValues = [0, 0];
-const rightJoystickValues = [0, 0];
+S.controllerSettings
+	.get()
+	.then((v) => {
+		controllerSettings = v ?? {};
+		loadMapping();
+	})
+	.catch((err) => console.error("Failed to read controllerSettings", err));
+
+S.controllerSettings.onChanged((v) => {
+	controllerSettings = v ?? {};
+	loadMapping();
+});
 
 gameControl.on("connect", (gamepad: GamepadState) => {
 	console.log("Gamepad connected:");
@@ -63,24 +77,6 @@ gameControl.on("connect", (gamepad: GamepadState) => {
 	}
 	updateCompatibility();
 
-	// Auto-detect controller type
-	const detectedMapping = getControllerMapping(
-		gamepad.controllerId,
-		currentMapping,
-	);
-	if (detectedMapping !== currentMapping) {
-		console.log(
-			`Auto-detected controller as ${detectedMapping} (${gamepad.controllerId})`,
-		);
-		currentMapping = detectedMapping;
-		const mappingElement = document.getElementById(
-			"gamepad-mapping",
-		) as HTMLSelectElement;
-		if (mappingElement) {
-			mappingElement.value = currentMapping;
-		}
-	}
-
 	// Add button event listeners for all buttons
 	for (let i = 0; i <= 16; i++) {
 		const buttonIndex = i;
@@ -92,44 +88,7 @@ gameControl.on("connect", (gamepad: GamepadState) => {
 		);
 	}
 
-	// Add joystick event listeners - track the axis values for visualization
-	// Left joystick - track horizontal (axis 0)
-	gamepad.on("left0", () => {
-		leftJoystickValues[0] = -1;
-		moveJoystick(leftJoystickValues, true);
-	});
-	gamepad.on("right0", () => {
-		leftJoystickValues[0] = 1;
-		moveJoystick(leftJoystickValues, true);
-	});
-	// Left joystick - track vertical (axis 1)
-	gamepad.on("up0", () => {
-		leftJoystickValues[1] = -1;
-		moveJoystick(leftJoystickValues, true);
-	});
-	gamepad.on("down0", () => {
-		leftJoystickValues[1] = 1;
-		moveJoystick(leftJoystickValues, true);
-	});
-
-	// Right joystick - track horizontal (axis 2)
-	gamepad.on("left1", () => {
-		rightJoystickValues[0] = -1;
-		moveJoystick(rightJoystickValues, false);
-	});
-	gamepad.on("right1", () => {
-		rightJoystickValues[0] = 1;
-		moveJoystick(rightJoystickValues, false);
-	});
-	// Right joystick - track vertical (axis 3)
-	gamepad.on("up1", () => {
-		rightJoystickValues[1] = -1;
-		moveJoystick(rightJoystickValues, false);
-	});
-	gamepad.on("down1", () => {
-		rightJoystickValues[1] = 1;
-		moveJoystick(rightJoystickValues, false);
-	});
+	updateControllers();
 });
 
 gameControl.on("disconnect", (index: number) => {
@@ -140,6 +99,7 @@ gameControl.on("disconnect", (index: number) => {
 		countElement.textContent = (--count).toString();
 	}
 	updateCompatibility();
+	updateControllers();
 });
 
 const mappingDropdown = document.getElementById(
@@ -147,7 +107,19 @@ const mappingDropdown = document.getElementById(
 ) as HTMLSelectElement;
 if (mappingDropdown) {
 	mappingDropdown.addEventListener("change", () => {
-		S.buttonImageMapping.set(mappingDropdown.value);
+		// with a controller selected the icons are remembered for that device
+		const gamepad = getSelectedGamepad();
+		if (gamepad) {
+			S.controllerSettings.set({
+				...controllerSettings,
+				[gamepad.id]: {
+					...controllerSettings[gamepad.id],
+					buttonImageMapping: mappingDropdown.value,
+				},
+			});
+		} else {
+			S.buttonImageMapping.set(mappingDropdown.value);
+		}
 	});
 }
 
@@ -162,16 +134,18 @@ moveJoystick([0, 0], true);
 moveJoystick([0, 0], false);
 gamepadMappings.buttonsPath = "/assets/buttons";
 
-// Use beforeCycle to reset joystick visualization each frame (like in example-3)
+// Draw the sticks of the calibrated gamepad from its raw axes every frame
 gameControl.on("beforeCycle", () => {
-	// Reset joystick values if no direction is pressed
-	// This creates smooth visualization without needing many .after() handlers
-	leftJoystickValues[0] = 0;
-	leftJoystickValues[1] = 0;
-	rightJoystickValues[0] = 0;
-	rightJoystickValues[1] = 0;
-	moveJoystick(leftJoystickValues, true);
-	moveJoystick(rightJoystickValues, false);
+	const gamepad = getSelectedGamepad();
+	const axes = gamepad?.axes ?? [0, 0, 0, 0];
+	moveJoystick([axes[0] ?? 0, axes[1] ?? 0], true);
+	moveJoystick([axes[2] ?? 0, axes[3] ?? 0], false);
+	// highlight the left stick while it would navigate on the page
+	const calibrated = calibrateStick(axes[0] ?? 0, axes[1] ?? 0, calibration);
+	stickDirection = getStickDirection(calibrated, calibration, stickDirection);
+	document
+		.getElementById("left-joystick")
+		?.classList.toggle("active", stickDirection !== null);
 });
 
 function showPressedButton(index: number) {
@@ -224,3 +198,219 @@ function updateCompatibility() {
 		}
 	}
 }
+
+// ===== CONTROLLER SELECTION =====
+
+let primaryController: PrimaryControllerPolicy = "First active";
+let pinnedController = "";
+
+const controllerElement = document.getElementById(
+	"controller",
+) as HTMLSelectElement;
+const pinElement = document.getElementById(
+	"pin-controller",
+) as HTMLInputElement;
+
+Promise.all([
+	S.primaryController.get().then((v) => {
+		primaryController = v ?? "First active";
+	}),
+	S.pinnedController.get().then((v) => {
+		pinnedController = v ?? "";
+	}),
+])
+	.then(() => loadPin())
+	.catch((err) => console.error("Failed to read pinned controller", err));
+
+S.primaryController.onChanged((v) => {
+	primaryController = v;
+	loadPin();
+});
+S.pinnedController.onChanged((v) => {
+	pinnedController = v ?? "";
+	loadPin();
+});
+
+controllerElement?.addEventListener("change", () => {
+	loadMapping();
+	loadPin();
+	loadCalibration();
+});
+pinElement?.addEventListener("change", () => {
+	const gamepad = getSelectedGamepad();
+	if (pinElement.checked && gamepad) {
+		S.pinnedController.set(gamepad.id);
+		S.primaryController.set("Pinned");
+	} else {
+		S.pinnedController.set("");
+		S.primaryController.set("First active");
+	}
+});
+
+// plays at the intensity set in the options
+document.getElementById("test-vibration")?.addEventListener("click", () => {
+	S.hapticIntensity
+		.get()
+		.then((v) => playHapticEffect(getSelectedGamepad(), "test", v ?? 50))
+		.catch((err) => console.error("Failed to read hapticIntensity", err));
+});
+
+function getSelectedGamepad(): Gamepad | null {
+	const index = Number(controllerElement?.value);
+	return Number.isNaN(index) ? null : (navigator.getGamepads()[index] ?? null);
+}
+
+// list the connected gamepads, keeping the selection if it is still connected
+function updateControllers() {
+	if (!controllerElement) return;
+	const selected = controllerElement.value;
+	controllerElement.innerHTML = "";
+	for (const gamepad of navigator.getGamepads()) {
+		if (!gamepad) continue;
+		const option = document.createElement("option");
+		option.value = String(gamepad.index);
+		option.textContent = gamepad.id;
+		controllerElement.append(option);
+	}
+	if (
+		Array.from(controllerElement.options).some(
+			(option) => option.value === selected,
+		)
+	) {
+		controllerElement.value = selected;
+	}
+	loadMapping();
+	loadPin();
+	loadCalibration();
+}
+
+// show the saved or auto-detected icons of the selected controller
+function loadMapping() {
+	const gamepad = getSelectedGamepad();
+	currentMapping = gamepad
+		? (controllerSettings[gamepad.id]?.buttonImageMapping ??
+			getControllerMapping(gamepad.id, globalMapping))
+		: globalMapping;
+	if (mappingDropdown) {
+		mappingDropdown.value = currentMapping;
+	}
+}
+
+function loadPin() {
+	if (!pinElement) return;
+	const gamepad = getSelectedGamepad();
+	pinElement.disabled = !gamepad;
+	pinElement.checked =
+		!!gamepad &&
+		primaryController === "Pinned" &&
+		pinnedController === gamepad.id;
+}
+
+// ===== STICK CALIBRATION =====
+
+let calibrations: Record<string, StickCalibration> = {};
+let calibration: StickCalibration = { ...DEFAULT_STICK_CALIBRATION };
+let stickDirection: number | null = null;
+
+const deadZoneElement = document.getElementById(
+	"dead-zone",
+) as HTMLInputElement;
+const thresholdElement = document.getElementById(
+	"threshold",
+) as HTMLInputElement;
+const invertXElement = document.getElementById("invert-x") as HTMLInputElement;
+const invertYElement = document.getElementById("invert-y") as HTMLInputElement;
+
+S.stickCalibrations
+	.get()
+	.then((v) => {
+		calibrations = v ?? {};
+		loadCalibration();
+	})
+	.catch((err) => console.error("Failed to read stickCalibrations", err));
+
+S.stickCalibrations.onChanged((v) => {
+	calibrations = v ?? {};
+	loadCalibration();
+});
+
+for (const element of [deadZoneElement, thresholdElement]) {
+	// preview while dragging, save once released
+	element?.addEventListener("input", () => {
+		readCalibration();
+		drawCalibration();
+	});
+	element?.addEventListener("change", () => saveCalibration());
+}
+for (const element of [invertXElement, invertYElement]) {
+	element?.addEventListener("change", () => saveCalibration());
+}
+document.getElementById("reset-calibration")?.addEventListener("click", () => {
+	const gamepad = getSelectedGamepad();
+	if (gamepad) {
+		const { [gamepad.id]: _removed, ...rest } = calibrations;
+		S.stickCalibrations.set(rest);
+	}
+});
+
+function loadCalibration() {
+	const gamepad = getSelectedGamepad();
+	calibration = gamepad
+		? getStickCalibration(calibrations, gamepad.id)
+		: { ...DEFAULT_STICK_CALIBRATION };
+	const disabled = !gamepad;
+	for (const element of [
+		deadZoneElement,
+		thresholdElement,
+		invertXElement,
+		invertYElement,
+	]) {
+		if (element) element.disabled = disabled;
+	}
+	if (deadZoneElement) deadZoneElement.value = String(calibration.deadZone);
+	if (thresholdElement) thresholdElement.value = String(calibration.threshold);
+	if (invertXElement) invertXElement.checked = calibration.invertX;
+	if (invertYElement) invertYElement.checked = calibration.invertY;
+	drawCalibration();
+}
+
+function readCalibration() {
+	calibration = {
+		deadZone: Number(deadZoneElement.value),
+		threshold: Number(thresholdElement.value),
+		invertX: invertXElement.checked,
+		invertY: invertYElement.checked,
+	};
+}
+
+function saveCalibration() {
+	const gamepad = getSelectedGamepad();
+	if (!gamepad) return;
+	readCalibration();
+	S.stickCalibrations.set({ ...calibrations, [gamepad.id]: calibration });
+}
+
+// size the dead zone and activation rings of the left stick
+function drawCalibration() {
+	const activation =
+		calibration.deadZone + calibration.threshold * (1 - calibration.deadZone);
+	const rings: [string, number][] = [
+		["dead-zone-ring", calibration.deadZone],
+		["threshold-ring", activation],
+	];
+	for (const [id, radius] of rings) {
+		const ring = document.getElementById(id);
+		if (ring) {
+			ring.style.width = `${CONTAINER_SIZE * radius}px`;
+			ring.style.height = `${CONTAINER_SIZE * radius}px`;
+		}
+	}
+	const deadZoneValue = document.getElementById("dead-zone-value");
+	if (deadZoneValue) {
+		deadZoneValue.textContent = `${Math.round(calibration.deadZone * 100)}%`;
+	}
+	const thresholdValue = document.getElementById("threshold-value");
+	if (thresholdValue) {
+		thresholdValue.textContent = `${Math.round(calibration.threshold * 100)}%`;
+	}
+}
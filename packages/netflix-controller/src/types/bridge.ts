@@ -0,0 +1,113 @@
+// Protocol between the content script and the main world Netflix API bridge
+
+import type { getSessionInfo } from "../entrypoints/netflix-api/debug";
+import type * as controls from "../entrypoints/netflix-api/player-controls";
+
+// bump whenever a command's or event's shape changes
+export const BRIDGE_PROTOCOL_VERSION = 2;
+
+// first message on the channel, answered with a BridgeHandshakeReply
+export const BRIDGE_HANDSHAKE_TYPE = "netflix-controller-connect";
+
+// channel event names are this prefix, the session key and the receiving side
+export const BRIDGE_EVENT_PREFIX = "netflix-controller-bridge";
+
+// attribute of the injected script element holding the session key until it
+// runs; the key is the digest of the secret, so reading it does not reveal it
+export const BRIDGE_KEY_ATTRIBUTE = "data-bridge-key";
+
+export type BridgeErrorCode =
+	| "NO_PLAYER"
+	| "UNKNOWN_COMMAND"
+	| "UNAUTHORIZED"
+	| "VERSION_MISMATCH"
+	| "ALREADY_CONNECTED"
+	| "TIMEOUT"
+	| "EXECUTION_FAILED";
+
+export interface BridgeError {
+	code: BridgeErrorCode;
+	message: string;
+}
+
+// request and response types of a main world function, minus its status fields
+type Command<F extends (...args: never[]) => unknown> = {
+	args: Parameters<F>;
+	result: Omit<NonNullable<ReturnType<F>>, "success" | "error">;
+};
+
+// allow-list of commands callable from the content script
+export interface BridgeCommands {
+	togglePlayPause: Command<typeof controls.togglePlayPause>;
+	setPaused: Command<typeof controls.setPaused>;
+	toggleMute: Command<typeof controls.toggleMute>;
+	seekForward: Command<typeof controls.seekForward>;
+	seekBackward: Command<typeof controls.seekBackward>;
+	seekTo: Command<typeof controls.seekTo>;
+	volumeUp: Command<typeof controls.volumeUp>;
+	volumeDown: Command<typeof controls.volumeDown>;
+	getPlaybackRate: Command<typeof controls.getPlaybackRate>;
+	setPlaybackRate: Command<typeof controls.setPlaybackRate>;
+	getPlaybackStatus: Command<typeof controls.getPlaybackStatus>;
+	getSessionInfo: Command<typeof getSessionInfo>;
+	getSkipSegments: Command<typeof controls.getSkipSegments>;
+	getEpisodeInfo: Command<typeof controls.getEpisodeInfo>;
+	nextEpisode: Command<typeof controls.nextEpisode>;
+	previousEpisode: Command<typeof controls.previousEpisode>;
+	getTracks: Command<typeof controls.getTracks>;
+	setAudioTrack: Command<typeof controls.setAudioTrack>;
+	setTextTrack: Command<typeof controls.setTextTrack>;
+	subscribe: { args: [event: BridgeEventName]; result: object };
+	unsubscribe: { args: [event: BridgeEventName]; result: object };
+}
+
+export type BridgeCommand = keyof BridgeCommands;
+
+export type BridgeArgs<C extends BridgeCommand> = BridgeCommands[C]["args"];
+
+export type BridgeResult<C extends BridgeCommand> = BridgeCommands[C]["result"];
+
+// events published by the main world to subscribed content scripts
+export interface BridgeEvents {
+	play: { currentTime: number };
+	pause: { currentTime: number };
+	timeupdate: { currentTime: number; duration: number };
+	volumechange: { volume: number; isMuted: boolean };
+	ended: { currentTime: number };
+	sessioncreated: { sessionId?: string };
+	sessiondestroyed: { sessionId?: string };
+}
+
+export type BridgeEventName = keyof BridgeEvents;
+
+export interface BridgeEventMessage<
+	E extends BridgeEventName = BridgeEventName,
+> {
+	type: "event";
+	secret: string;
+	event: E;
+	data: BridgeEvents[E];
+}
+
+export interface BridgeHandshake {
+	type: typeof BRIDGE_HANDSHAKE_TYPE;
+	version: number;
+	secret: string;
+}
+
+export interface BridgeRequest<C extends BridgeCommand = BridgeCommand> {
+	version: number;
+	secret: string;
+	id: number;
+	command: C;
+	args: BridgeArgs<C>;
+}
+
+export type BridgeResponse<C extends BridgeCommand = BridgeCommand> =
+	| { id: number; secret: string; ok: true; result: BridgeResult<C> }
+	| { id: number; secret: string; ok: false; error: BridgeError };
+
+// sent on the channel in reply to a handshake, echoing the handshake's secret
+export type BridgeHandshakeReply =
+	| { type: "ready"; secret: string; version: number }
+	| { type: "rejected"; secret: string; error: BridgeError };
@@ -1,5 +1,7 @@
 // Component interfaces for navigatable elements
 
+import type { ActionId } from "./settings";
+
 // Forward declaration for PseudoStyler to avoid circular import
 interface PseudoStyler {
 	toggleStyle(element: Element, pseudoclass: string, force: boolean): void;
@@ -30,10 +32,17 @@ export interface Styler {
 // Action interface for navigation actions
 export interface NavigationAction {
 	label: string;
+	// default button, replaced by the user's binding for the action's id
 	index: number;
+	id?: ActionId;
 	onPress: () => void;
 	onRelease?: () => void;
 	hideHint?: boolean;
+	// fires instead of onPress once the button is held long enough
+	onLongPress?: () => void;
+	longPressLabel?: string;
+	// button pressed while index is held to trigger this action
+	chord?: number;
 }
 
 // Enter/exit parameters
@@ -108,6 +117,7 @@ export interface NavigatablePage {
 	hasSearchBar(): boolean;
 	hasPath(): boolean;
 	isNavigatable(position: number): boolean;
+	isNavigationLocked(): boolean;
 	onDirectionAction(direction: number): void;
 }
 
@@ -119,7 +129,10 @@ export interface BottomBarComponent {
 }
 
 export interface ActionHintsBar extends BottomBarComponent {
-	update(actions: Record<number, NavigationAction>): void;
+	update(
+		actions: Record<number, NavigationAction>,
+		chords?: NavigationAction[],
+	): void;
 }
 
 export interface ConnectionHintBar extends BottomBarComponent {
@@ -1,3 +1,5 @@
+import type { ButtonBindings } from "./settings";
+
 // Re-export types from gamecontroller.js
 export type { GameControl, GamepadState } from "@ribajs/gamecontroller.js";
 
@@ -17,3 +19,43 @@ export interface GamepadMapping {
 	buttonsPath: string;
 	buttonImageMapping: string;
 }
+
+/**
+ * Per-controller tuning of the left stick used for navigation
+ */
+export interface StickCalibration {
+	/** Deflection (0-1) below which the stick counts as centered */
+	deadZone: number;
+	/** Deflection (0-1) past the dead zone at which a direction is pressed */
+	threshold: number;
+	/** Whether left and right are swapped */
+	invertX: boolean;
+	/** Whether up and down are swapped */
+	invertY: boolean;
+}
+
+/**
+ * Which connected controller drives navigation
+ */
+export type PrimaryControllerPolicy = "First active" | "Last active" | "Pinned";
+
+/**
+ * Profile of a controller or controller type, applied while that controller
+ * drives navigation. Each setting present overrides the global one.
+ */
+export interface ControllerSettings {
+	/** Button icon set shown in hints while this controller is in use */
+	buttonImageMapping?: string;
+	/** Buttons bound to actions, replacing the global bindings */
+	buttonBindings?: ButtonBindings;
+	directionRepeat?: boolean;
+	repeatDelay?: number;
+	repeatRate?: number;
+	repeatAcceleration?: boolean;
+	/** Left stick dead zone for controllers not calibrated in the popup */
+	stickDeadZone?: number;
+	/** Left stick threshold for controllers not calibrated in the popup */
+	stickThreshold?: number;
+	/** Vibration strength in percent */
+	hapticIntensity?: number;
+}
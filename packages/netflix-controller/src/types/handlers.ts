@@ -2,13 +2,39 @@
 
 export interface PageHandler {
 	name: string;
-	validatePath(path: string): boolean;
 	hasPath(): boolean;
 	hasSearchBar(): boolean;
 	load(): Promise<void>;
 	unload(): void;
 }
 
+// Where a page handler applies, declared by the handler as its static route
+export interface PageRoute {
+	// path globs; * matches within one path segment, ** any number of segments
+	paths?: string[];
+	// checked against the document, e.g. for pages that can appear at any path
+	matches?: () => boolean;
+	// higher priorities are checked first, then in registration order
+	priority?: number;
+	// waited for on top of the handler's own readiness before it loads
+	isReady?: () => boolean;
+}
+
+// Outcome of one registered route for a path
+export interface RouteCheck {
+	handler: string;
+	priority: number;
+	matched: boolean;
+	reason: string;
+}
+
+// Why a page handler was chosen for a path, or why none was
+export interface RouteDecision {
+	path: string;
+	handler: string | null;
+	checks: RouteCheck[];
+}
+
 export interface Action {
 	label: string;
 	index: number;
@@ -25,6 +51,43 @@ export interface ActionHandler {
 	onInput?: () => void;
 }
 
+// Receives the button and direction events of every input device
+export interface InputSink {
+	pressButton(index: number): void;
+	releaseButton(index: number): void;
+	pressDirection(direction: number): void;
+	releaseDirection(direction: number): void;
+}
+
+export type RecordedInputType = keyof InputSink;
+
+// One event of an input capture
+export interface RecordedInput {
+	// milliseconds since the recording started
+	time: number;
+	type: RecordedInputType;
+	// button index or direction
+	value: number;
+	url: string;
+	handler: string | null;
+}
+
+// Input stream exported by the dev mode recorder, replayable on the page
+export interface InputCapture {
+	version: number;
+	recordedAt: string;
+	url: string;
+	handler: string | null;
+	viewport: { width: number; height: number };
+	events: RecordedInput[];
+}
+
+// An input device that translates its own events into gamepad events
+export interface InputSource {
+	start(): void;
+	stop(): void;
+}
+
 export interface Direction {
 	UP: string;
 	DOWN: string;
@@ -1,5 +1,6 @@
 // Main types export file
 
+export * from "./bridge.ts";
 export * from "./browser.ts";
 export * from "./components";
 export * from "./gamepad.ts";
@@ -1,5 +1,11 @@
 // Settings and options types
 
+import type {
+	ControllerSettings,
+	PrimaryControllerPolicy,
+	StickCalibration,
+} from "./gamepad";
+
 export interface OptionCondition {
 	[key: string]: unknown;
 }
@@ -8,17 +14,83 @@ export interface Option {
 	label: string;
 	name: string;
 	storageArea: "sync" | "local" | "managed";
-	type: "checkbox" | "combobox";
+	type: "checkbox" | "combobox" | "number";
 	default: boolean | string | unknown;
 	values?: string[];
+	min?: number;
+	max?: number;
+	step?: number;
 	condition?: OptionCondition;
 }
 
 export type OptionsArray = Option[];
 
+export type SkipMode = "Show button" | "Skip automatically" | "Off";
+
+// Logical actions whose gamepad button can be remapped in the options
+export type ActionId =
+	| "select"
+	| "back"
+	| "search"
+	| "play"
+	| "expand"
+	| "collapse"
+	| "previousTab"
+	| "nextTab"
+	| "playPause"
+	| "mute"
+	| "fullscreen"
+	| "volumeUp"
+	| "volumeDown"
+	| "seekBack"
+	| "seekForward"
+	| "scrubBack"
+	| "scrubForward"
+	| "speedModifier"
+	| "audioSubtitles"
+	| "skipOrSleep"
+	| "previousEpisode"
+	| "nextEpisode"
+	| "keyboardInsert"
+	| "keyboardSpace"
+	| "keyboardBackspace"
+	| "keyboardShift"
+	| "keyboardClose"
+	| "keyboardClear"
+	| "cursorToggle"
+	| "cursorClick";
+
+// Gamepad button index per KeyboardEvent.key of a keyboard or TV remote
+export type KeyMap = Record<string, number>;
+
+// Button index per remapped action; missing actions use their default button
+export type ButtonBindings = Partial<Record<ActionId, number>>;
+
 export interface Settings {
 	showActionHints: boolean;
 	buttonImageMapping: string;
 	showConnectionHint: boolean;
 	showCompatibilityWarning: boolean;
+	skipIntro: SkipMode;
+	skipRecap: SkipMode;
+	skipCredits: SkipMode;
+	buttonBindings: ButtonBindings;
+	directionRepeat: boolean;
+	repeatDelay: number;
+	repeatRate: number;
+	repeatAcceleration: boolean;
+	// used for controllers not calibrated in the popup
+	stickDeadZone: number;
+	stickThreshold: number;
+	// keyed by the Gamepad API id of the controller
+	stickCalibrations: Record<string, StickCalibration>;
+	keyboardInput: boolean;
+	keyMap: KeyMap;
+	primaryController: PrimaryControllerPolicy;
+	// Gamepad API id of the controller used by the "Pinned" policy
+	pinnedController: string;
+	// keyed by the Gamepad API id of the controller
+	controllerSettings: Record<string, ControllerSettings>;
+	// vibration strength in percent, 0 turns haptics off
+	hapticIntensity: number;
 }
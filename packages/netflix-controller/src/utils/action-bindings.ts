@@ -0,0 +1,168 @@
+import { GAMEPAD_BUTTONS } from "@ribajs/gamecontroller.js";
+import type { ActionId, ButtonBindings } from "../types/settings";
+
+export interface ActionBinding {
+	label: string;
+	// actions in the same group are available at the same time
+	group: "Browsing" | "Video Player" | "Search Keyboard" | "Virtual Cursor";
+	defaultButton: number;
+}
+
+// Remappable actions in the order they are listed in the options
+export const ACTION_BINDINGS: Record<ActionId, ActionBinding> = {
+	select: {
+		label: "Select",
+		group: "Browsing",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_BOTTOM,
+	},
+	play: {
+		label: "Play",
+		group: "Browsing",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_BOTTOM,
+	},
+	back: {
+		label: "Back / Close",
+		group: "Browsing",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_RIGHT,
+	},
+	expand: {
+		label: "Expand title details",
+		group: "Browsing",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_LEFT,
+	},
+	collapse: {
+		label: "Close title details",
+		group: "Browsing",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_LEFT,
+	},
+	previousTab: {
+		label: "Previous details tab",
+		group: "Browsing",
+		defaultButton: GAMEPAD_BUTTONS.BUMPER_LEFT,
+	},
+	nextTab: {
+		label: "Next details tab",
+		group: "Browsing",
+		defaultButton: GAMEPAD_BUTTONS.BUMPER_RIGHT,
+	},
+	search: {
+		label: "Search",
+		group: "Browsing",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_TOP,
+	},
+	playPause: {
+		label: "Play / Pause",
+		group: "Video Player",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_BOTTOM,
+	},
+	mute: {
+		label: "Mute",
+		group: "Video Player",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_LEFT,
+	},
+	fullscreen: {
+		label: "Fullscreen",
+		group: "Video Player",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_TOP,
+	},
+	volumeUp: {
+		label: "Volume Up",
+		group: "Video Player",
+		defaultButton: GAMEPAD_BUTTONS.D_PAD_UP,
+	},
+	volumeDown: {
+		label: "Volume Down",
+		group: "Video Player",
+		defaultButton: GAMEPAD_BUTTONS.D_PAD_BOTTOM,
+	},
+	seekBack: {
+		label: "Seek Back 10s",
+		group: "Video Player",
+		defaultButton: GAMEPAD_BUTTONS.D_PAD_LEFT,
+	},
+	seekForward: {
+		label: "Seek Forward 10s",
+		group: "Video Player",
+		defaultButton: GAMEPAD_BUTTONS.D_PAD_RIGHT,
+	},
+	scrubBack: {
+		label: "Scrub Back",
+		group: "Video Player",
+		defaultButton: GAMEPAD_BUTTONS.TRIGGER_LEFT,
+	},
+	scrubForward: {
+		label: "Scrub Forward",
+		group: "Video Player",
+		defaultButton: GAMEPAD_BUTTONS.TRIGGER_RIGHT,
+	},
+	speedModifier: {
+		label: "Hold for Speed",
+		group: "Video Player",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_JOYSTICK_LEFT,
+	},
+	audioSubtitles: {
+		label: "Audio & Subtitles",
+		group: "Video Player",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_CONTROL_LEFT,
+	},
+	skipOrSleep: {
+		label: "Skip Intro / Sleep Timer",
+		group: "Video Player",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_CONTROL_RIGHT,
+	},
+	previousEpisode: {
+		label: "Previous Episode",
+		group: "Video Player",
+		defaultButton: GAMEPAD_BUTTONS.BUMPER_LEFT,
+	},
+	nextEpisode: {
+		label: "Next Episode",
+		group: "Video Player",
+		defaultButton: GAMEPAD_BUTTONS.BUMPER_RIGHT,
+	},
+	keyboardInsert: {
+		label: "Insert",
+		group: "Search Keyboard",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_BOTTOM,
+	},
+	keyboardSpace: {
+		label: "Space",
+		group: "Search Keyboard",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_TOP,
+	},
+	keyboardBackspace: {
+		label: "Backspace",
+		group: "Search Keyboard",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_RIGHT,
+	},
+	keyboardShift: {
+		label: "Shift",
+		group: "Search Keyboard",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_LEFT,
+	},
+	keyboardClose: {
+		label: "Close",
+		group: "Search Keyboard",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_CONTROL_RIGHT,
+	},
+	keyboardClear: {
+		label: "Clear",
+		group: "Search Keyboard",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_CONTROL_LEFT,
+	},
+	cursorToggle: {
+		label: "Toggle Cursor",
+		group: "Virtual Cursor",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_JOYSTICK_RIGHT,
+	},
+	cursorClick: {
+		label: "Click",
+		group: "Virtual Cursor",
+		defaultButton: GAMEPAD_BUTTONS.BUTTON_BOTTOM,
+	},
+};
+
+// the button an action is currently bound to
+export function getBoundButton(id: ActionId, bindings: ButtonBindings): number {
+	return bindings[id] ?? ACTION_BINDINGS[id].defaultButton;
+}
@@ -0,0 +1,61 @@
+import { BRIDGE_EVENT_PREFIX } from "../types/bridge";
+
+export type BridgeSide = "content" | "main";
+
+// the session key: a hex SHA-256 digest of the secret
+export async function getBridgeKey(secret: string): Promise<string> {
+	const digest = await crypto.subtle.digest(
+		"SHA-256",
+		new TextEncoder().encode(secret),
+	);
+	return Array.from(new Uint8Array(digest), (byte) =>
+		byte.toString(16).padStart(2, "0"),
+	).join("");
+}
+
+/**
+ * One end of the channel between the content script and the main world
+ * script. Messages travel as DOM events on the document, named after the
+ * session key. Page scripts that saw the key on the injected script can
+ * listen in, so the ends authenticate messages with the secret themselves.
+ * Details are JSON strings because objects do not cross worlds.
+ */
+export class BridgeChannel {
+	key: string;
+	side: BridgeSide;
+	onmessage: ((data: unknown) => void) | null;
+
+	constructor(key: string, side: BridgeSide) {
+		this.key = key;
+		this.side = side;
+		this.onmessage = null;
+		this.onEvent = this.onEvent.bind(this);
+		document.addEventListener(this.getEventName(side), this.onEvent);
+	}
+
+	getEventName(side: BridgeSide): string {
+		return `${BRIDGE_EVENT_PREFIX}:${this.key}:${side}`;
+	}
+
+	postMessage(data: unknown): void {
+		const to = this.side === "content" ? "main" : "content";
+		document.dispatchEvent(
+			new CustomEvent(this.getEventName(to), { detail: JSON.stringify(data) }),
+		);
+	}
+
+	onEvent(event: Event): void {
+		const detail = (event as CustomEvent).detail;
+		if (typeof detail !== "string") return;
+		try {
+			this.onmessage?.(JSON.parse(detail));
+		} catch (error) {
+			console.warn("[BRIDGE] Ignoring malformed message:", error);
+		}
+	}
+
+	close(): void {
+		document.removeEventListener(this.getEventName(this.side), this.onEvent);
+		this.onmessage = null;
+	}
+}
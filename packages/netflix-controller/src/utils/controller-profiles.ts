@@ -0,0 +1,60 @@
+import type { ControllerSettings } from "../types/gamepad";
+import type { Settings } from "../types/settings";
+import { detectControllerType } from "./controller-detection";
+
+// global settings a controller profile can override; icons are handled by the gamepad registry
+export const PROFILE_SETTINGS = [
+	"buttonBindings",
+	"directionRepeat",
+	"repeatDelay",
+	"repeatRate",
+	"repeatAcceleration",
+	"stickDeadZone",
+	"stickThreshold",
+	"hapticIntensity",
+] as const;
+
+export type ProfileSettings = Pick<Settings, (typeof PROFILE_SETTINGS)[number]>;
+
+// profiles of a controller type are stored next to those of single controllers
+const TYPE_PROFILE_PREFIX = "type:";
+
+export function getTypeProfileKey(type: string): string {
+	return `${TYPE_PROFILE_PREFIX}${type}`;
+}
+
+// the detected type a profile key stands for, or null for a single controller
+export function getProfileType(key: string): string | null {
+	return key.startsWith(TYPE_PROFILE_PREFIX)
+		? key.slice(TYPE_PROFILE_PREFIX.length)
+		: null;
+}
+
+/**
+ * The profile of a controller, with its own settings taking precedence over
+ * the profile of its detected type.
+ */
+export function getControllerProfile(
+	profiles: Record<string, ControllerSettings> | undefined,
+	controllerId: string,
+): ControllerSettings {
+	const type = detectControllerType(controllerId);
+	return {
+		...(type !== null ? profiles?.[getTypeProfileKey(type)] : undefined),
+		...profiles?.[controllerId],
+	};
+}
+
+// the global settings with every setting the profile sets replaced
+export function applyControllerProfile(
+	globalSettings: ProfileSettings,
+	profile: ControllerSettings,
+): ProfileSettings {
+	const settings = { ...globalSettings };
+	for (const key of PROFILE_SETTINGS) {
+		if (profile[key] !== undefined) {
+			Object.assign(settings, { [key]: profile[key] });
+		}
+	}
+	return settings;
+}
@@ -0,0 +1,14 @@
+/**
+ * Formats a playback position given in milliseconds as h:mm:ss or m:ss.
+ */
+export function formatTime(timeMs: number): string {
+	const totalSeconds = Math.max(0, Math.floor(timeMs / 1000));
+	const hours = Math.floor(totalSeconds / 3600);
+	const minutes = Math.floor((totalSeconds % 3600) / 60);
+	const seconds = totalSeconds % 60;
+	const paddedSeconds = seconds.toString().padStart(2, "0");
+	if (hours > 0) {
+		return `${hours}:${minutes.toString().padStart(2, "0")}:${paddedSeconds}`;
+	}
+	return `${minutes}:${paddedSeconds}`;
+}
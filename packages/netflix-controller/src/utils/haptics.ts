@@ -0,0 +1,47 @@
+// Rumble effects played through the Gamepad API vibration actuator
+
+export type HapticEffect = "edge" | "error" | "pulse" | "test";
+
+interface RumbleParams {
+	duration: number;
+	strongMagnitude: number;
+	weakMagnitude: number;
+}
+
+// magnitudes at full intensity; the weak motor gives a lighter, sharper buzz
+const HAPTIC_EFFECTS: Record<HapticEffect, RumbleParams> = {
+	edge: { duration: 60, strongMagnitude: 0.2, weakMagnitude: 0.6 },
+	error: { duration: 250, strongMagnitude: 0.8, weakMagnitude: 0.8 },
+	pulse: { duration: 40, strongMagnitude: 0, weakMagnitude: 0.4 },
+	test: { duration: 400, strongMagnitude: 1, weakMagnitude: 1 },
+};
+
+/**
+ * Plays the effect on the gamepad scaled by the intensity in percent.
+ * Controllers without haptics and browsers without the actuator API are
+ * ignored.
+ */
+export function playHapticEffect(
+	gamepad: Gamepad | null | undefined,
+	effect: HapticEffect,
+	intensity: number,
+): void {
+	const actuator = gamepad?.vibrationActuator;
+	if (!actuator || intensity <= 0) {
+		return;
+	}
+	const params = HAPTIC_EFFECTS[effect];
+	const scale = Math.min(intensity, 100) / 100;
+	try {
+		actuator
+			.playEffect?.("dual-rumble", {
+				startDelay: 0,
+				duration: params.duration,
+				strongMagnitude: params.strongMagnitude * scale,
+				weakMagnitude: params.weakMagnitude * scale,
+			})
+			?.catch(() => {});
+	} catch {
+		// effect type not supported by this controller
+	}
+}
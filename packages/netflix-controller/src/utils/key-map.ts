@@ -0,0 +1,30 @@
+import { GAMEPAD_BUTTONS } from "@ribajs/gamecontroller.js";
+import type { KeyMap } from "../types/settings";
+
+// Keys of a keyboard or media remote and the gamepad buttons they press
+export const DEFAULT_KEY_MAP: KeyMap = {
+	ArrowUp: GAMEPAD_BUTTONS.D_PAD_UP,
+	ArrowDown: GAMEPAD_BUTTONS.D_PAD_BOTTOM,
+	ArrowLeft: GAMEPAD_BUTTONS.D_PAD_LEFT,
+	ArrowRight: GAMEPAD_BUTTONS.D_PAD_RIGHT,
+	Enter: GAMEPAD_BUTTONS.BUTTON_BOTTOM,
+	Backspace: GAMEPAD_BUTTONS.BUTTON_RIGHT,
+	Escape: GAMEPAD_BUTTONS.BUTTON_RIGHT,
+	BrowserBack: GAMEPAD_BUTTONS.BUTTON_RIGHT,
+	GoBack: GAMEPAD_BUTTONS.BUTTON_RIGHT,
+	ContextMenu: GAMEPAD_BUTTONS.BUTTON_CONTROL_LEFT,
+	BrowserSearch: GAMEPAD_BUTTONS.BUTTON_TOP,
+	MediaPlayPause: GAMEPAD_BUTTONS.BUTTON_BOTTOM,
+	MediaTrackPrevious: GAMEPAD_BUTTONS.BUMPER_LEFT,
+	MediaTrackNext: GAMEPAD_BUTTONS.BUMPER_RIGHT,
+	MediaRewind: GAMEPAD_BUTTONS.D_PAD_LEFT,
+	MediaFastForward: GAMEPAD_BUTTONS.D_PAD_RIGHT,
+};
+
+// readable name of a KeyboardEvent.key value
+export function formatKey(key: string): string {
+	if (key === " ") {
+		return "Space";
+	}
+	return key.length === 1 ? key.toUpperCase() : key;
+}
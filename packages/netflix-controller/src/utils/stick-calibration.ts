@@ -0,0 +1,67 @@
+import { DIRECTION } from "../entrypoints/content/components/direction.ts";
+import type { StickCalibration } from "../types/gamepad";
+
+export const DEFAULT_STICK_CALIBRATION: StickCalibration = {
+	deadZone: 0.15,
+	threshold: 0.5,
+	invertX: false,
+	invertY: false,
+};
+
+// a pressed direction is released a little below its threshold so that a
+// stick resting on the threshold does not flicker
+const RELEASE_RATIO = 0.8;
+
+// the popup calibration of a controller, or the given defaults without one
+export function getStickCalibration(
+	calibrations: Record<string, StickCalibration> | undefined,
+	gamepadId: string,
+	defaults: StickCalibration = DEFAULT_STICK_CALIBRATION,
+): StickCalibration {
+	return { ...defaults, ...calibrations?.[gamepadId] };
+}
+
+/**
+ * Applies inversion and a radial dead zone to raw stick axes, rescaling the
+ * remaining range so that values start at 0 just outside the dead zone.
+ */
+export function calibrateStick(
+	x: number,
+	y: number,
+	calibration: StickCalibration,
+): [number, number] {
+	const magnitude = Math.min(Math.hypot(x, y), 1);
+	if (magnitude <= calibration.deadZone) {
+		return [0, 0];
+	}
+	const scale =
+		(magnitude - calibration.deadZone) / (1 - calibration.deadZone) / magnitude;
+	return [
+		x * scale * (calibration.invertX ? -1 : 1),
+		y * scale * (calibration.invertY ? -1 : 1),
+	];
+}
+
+/**
+ * Gets the direction a calibrated stick points in, or null while it is below
+ * the activation threshold. The currently pressed direction is kept until
+ * the stick drops below the release threshold.
+ */
+export function getStickDirection(
+	[x, y]: [number, number],
+	calibration: StickCalibration,
+	current: number | null,
+): number | null {
+	const magnitude = Math.hypot(x, y);
+	const threshold =
+		current === null
+			? calibration.threshold
+			: calibration.threshold * RELEASE_RATIO;
+	if (magnitude < threshold) {
+		return null;
+	}
+	if (Math.abs(x) > Math.abs(y)) {
+		return x < 0 ? DIRECTION.LEFT : DIRECTION.RIGHT;
+	}
+	return y < 0 ? DIRECTION.UP : DIRECTION.DOWN;
+}
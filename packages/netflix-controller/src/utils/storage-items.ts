@@ -1,4 +1,11 @@
 import { StorageItem } from "webext-storage";
+import type {
+	ControllerSettings,
+	PrimaryControllerPolicy,
+	StickCalibration,
+} from "../types/gamepad";
+import type { ButtonBindings, KeyMap, SkipMode } from "../types/settings";
+import { DEFAULT_KEY_MAP } from "./key-map.ts";
 
 // Typed storage items for all user options/settings
 
@@ -30,3 +37,119 @@ export const showCompatibilityWarning = new StorageItem<boolean>(
 		defaultValue: true,
 	},
 );
+
+export const skipIntro = new StorageItem<SkipMode>("skipIntro", {
+	area: "sync",
+	defaultValue: "Show button",
+});
+
+export const skipRecap = new StorageItem<SkipMode>("skipRecap", {
+	area: "sync",
+	defaultValue: "Show button",
+});
+
+export const skipCredits = new StorageItem<SkipMode>("skipCredits", {
+	area: "sync",
+	defaultValue: "Off",
+});
+
+export const directionRepeat = new StorageItem<boolean>("directionRepeat", {
+	area: "sync",
+	defaultValue: true,
+});
+
+// milliseconds a direction is held before it starts repeating
+export const repeatDelay = new StorageItem<number>("repeatDelay", {
+	area: "sync",
+	defaultValue: 400,
+});
+
+// repeats per second before any acceleration
+export const repeatRate = new StorageItem<number>("repeatRate", {
+	area: "sync",
+	defaultValue: 8,
+});
+
+export const repeatAcceleration = new StorageItem<boolean>(
+	"repeatAcceleration",
+	{
+		area: "sync",
+		defaultValue: true,
+	},
+);
+
+// left stick deflection (0-1) below which the stick counts as centered
+export const stickDeadZone = new StorageItem<number>("stickDeadZone", {
+	area: "sync",
+	defaultValue: 0.15,
+});
+
+// left stick deflection (0-1) past the dead zone at which a direction is pressed
+export const stickThreshold = new StorageItem<number>("stickThreshold", {
+	area: "sync",
+	defaultValue: 0.5,
+});
+
+// Left stick calibration set in the popup, keyed by controller id
+export const stickCalibrations = new StorageItem<
+	Record<string, StickCalibration>
+>("stickCalibrations", {
+	area: "sync",
+	defaultValue: {},
+});
+
+export const keyboardInput = new StorageItem<boolean>("keyboardInput", {
+	area: "sync",
+	defaultValue: false,
+});
+
+export const keyMap = new StorageItem<KeyMap>("keyMap", {
+	area: "sync",
+	defaultValue: DEFAULT_KEY_MAP,
+});
+
+export const primaryController = new StorageItem<PrimaryControllerPolicy>(
+	"primaryController",
+	{
+		area: "sync",
+		defaultValue: "First active",
+	},
+);
+
+// Gamepad API id of the controller pinned in the popup
+export const pinnedController = new StorageItem<string>("pinnedController", {
+	area: "sync",
+	defaultValue: "",
+});
+
+// Settings restored when the same controller reconnects, keyed by its id
+export const controllerSettings = new StorageItem<
+	Record<string, ControllerSettings>
+>("controllerSettings", {
+	area: "sync",
+	defaultValue: {},
+});
+
+// vibration strength in percent, 0 turns haptics off
+export const hapticIntensity = new StorageItem<number>("hapticIntensity", {
+	area: "sync",
+	defaultValue: 50,
+});
+
+// Buttons the user remapped actions to in the options, keyed by action id
+export const buttonBindings = new StorageItem<ButtonBindings>(
+	"buttonBindings",
+	{
+		area: "sync",
+		defaultValue: {},
+	},
+);
+
+// Last subtitle language chosen in the track picker, keyed by Netflix profile
+export const subtitleLanguages = new StorageItem<Record<string, string>>(
+	"subtitleLanguages",
+	{
+		area: "sync",
+		defaultValue: {},
+	},
+);